@@ -2,6 +2,9 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // pdf-parse loads the pdf.js worker and puppeteer-core its browser protocol files from
+  // node_modules at runtime, so they must not be bundled
+  serverExternalPackages: ['pdf-parse', 'puppeteer-core'],
 };
 
 export default nextConfig;
@@ -0,0 +1,265 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { DatabaseZap, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+
+interface KnowledgeBase {
+  id: string;
+  name: string;
+}
+
+interface Website {
+  url: string;
+  title: string;
+  crawled_at: number;
+  summary: string | null;
+  chunkCount: number;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export default function AdminPage() {
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBase[]>([]);
+  const [knowledgeBaseId, setKnowledgeBaseId] = useState('default');
+  const [websites, setWebsites] = useState<Website[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [isReindexing, setIsReindexing] = useState(false);
+  // Per-URL status text for in-flight re-crawls and deletions
+  const [busy, setBusy] = useState<Record<string, string>>({});
+
+  const setBusyStatus = (url: string, status: string | null) => {
+    setBusy(prev => {
+      const next = { ...prev };
+      if (status) {
+        next[url] = status;
+      } else {
+        delete next[url];
+      }
+      return next;
+    });
+  };
+
+  const loadWebsites = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/websites?knowledgeBaseId=${encodeURIComponent(knowledgeBaseId)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      setWebsites(data.websites || []);
+    } catch (loadError) {
+      console.error('Error loading websites:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load websites');
+      setWebsites([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [knowledgeBaseId]);
+
+  useEffect(() => {
+    const initialKnowledgeBase = new URLSearchParams(window.location.search).get('kb');
+    if (initialKnowledgeBase) {
+      setKnowledgeBaseId(initialKnowledgeBase);
+    }
+
+    fetch('/api/knowledge-bases')
+      .then(response => response.json())
+      .then(data => setKnowledgeBases(data.knowledgeBases || []))
+      .catch(kbError => console.error('Error loading knowledge bases:', kbError));
+  }, []);
+
+  useEffect(() => {
+    loadWebsites();
+  }, [loadWebsites]);
+
+  const deleteWebsite = async (url: string) => {
+    if (!confirm(`Delete all indexed content for ${url}?`)) return;
+
+    setBusyStatus(url, 'Deleting...');
+    try {
+      const params = new URLSearchParams({ url, knowledgeBaseId });
+      const response = await fetch(`/api/websites?${params}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      setWebsites(prev => prev.filter(website => website.url !== url));
+    } catch (deleteError) {
+      console.error('Error deleting website:', deleteError);
+      alert(`Failed to delete ${url}: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+    } finally {
+      setBusyStatus(url, null);
+    }
+  };
+
+  const recrawlWebsite = async (url: string) => {
+    setBusyStatus(url, 'Starting re-crawl...');
+    try {
+      const response = await fetch('/api/crawl', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, knowledgeBaseId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+
+      // Poll the crawl job until it finishes
+      while (true) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        const job = await fetch(`/api/crawl/${data.jobId}`).then(res => res.json());
+        if (job.finishedAt) {
+          if (job.phase !== 'completed') {
+            throw new Error(job.errors?.[job.errors.length - 1]?.error || `Crawl ${job.phase}`);
+          }
+          break;
+        }
+        setBusyStatus(url, job.pagesTotal > 0 ? `${job.phase} (${job.pagesDone}/${job.pagesTotal})` : `${job.phase}...`);
+      }
+
+      await loadWebsites();
+    } catch (crawlError) {
+      console.error('Error re-crawling website:', crawlError);
+      alert(`Failed to re-crawl ${url}: ${crawlError instanceof Error ? crawlError.message : 'Unknown error'}`);
+    } finally {
+      setBusyStatus(url, null);
+    }
+  };
+
+  // Re-embed every stored chunk into a fresh cosine-indexed collection (no re-crawl)
+  const reindexKnowledgeBase = async () => {
+    if (!confirm('Re-embed all stored content in this knowledge base? This can take a while for large sites.')) return;
+
+    setIsReindexing(true);
+    try {
+      const response = await fetch(`/api/knowledge-bases/${encodeURIComponent(knowledgeBaseId)}/reindex`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP ${response.status}`);
+      }
+      alert(`Re-indexed ${data.chunksReindexed} chunks (${data.current?.model}, ${data.current?.metric})`);
+      await loadWebsites();
+    } catch (reindexError) {
+      console.error('Error re-indexing knowledge base:', reindexError);
+      alert(`Failed to re-index: ${reindexError instanceof Error ? reindexError.message : 'Unknown error'}`);
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Indexed Websites</h1>
+            <p className="text-sm text-muted-foreground">Manage crawled content in each knowledge base</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={knowledgeBaseId}
+              onChange={(e) => setKnowledgeBaseId(e.target.value)}
+              className="h-9 rounded-md border bg-background px-3 text-sm"
+            >
+              {knowledgeBases.length === 0 && <option value={knowledgeBaseId}>{knowledgeBaseId}</option>}
+              {knowledgeBases.map(kb => (
+                <option key={kb.id} value={kb.id}>{kb.name}</option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={loadWebsites} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button variant="outline" onClick={reindexKnowledgeBase} disabled={isReindexing || websites.length === 0}>
+              {isReindexing ? <Loader2 className="h-4 w-4 animate-spin" /> : <DatabaseZap className="h-4 w-4" />}
+              Re-index
+            </Button>
+            <Link href="/chatbox" className="text-sm underline text-muted-foreground hover:text-foreground">
+              Chat
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {/* Website List */}
+      <div className="max-w-6xl mx-auto p-4">
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive/50 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        {isLoading && websites.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Loading websites...</span>
+          </div>
+        ) : websites.length === 0 ? (
+          <div className="py-16 text-center text-muted-foreground">
+            <p className="text-lg font-medium mb-2">No websites indexed</p>
+            <p className="text-sm">Crawl a website from the <Link href="/" className="underline">homepage</Link> to get started.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Website</th>
+                <th className="py-2 pr-4 font-medium">Chunks</th>
+                <th className="py-2 pr-4 font-medium">Crawled</th>
+                <th className="py-2 pr-4 font-medium">Summary</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {websites.map(website => (
+                <tr key={website.url} className="border-b align-top">
+                  <td className="py-3 pr-4 max-w-xs">
+                    <p className="font-medium truncate">{website.title}</p>
+                    <a
+                      href={website.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs underline text-muted-foreground block truncate"
+                    >
+                      {website.url}
+                    </a>
+                  </td>
+                  <td className="py-3 pr-4">{website.chunkCount}</td>
+                  <td className="py-3 pr-4 whitespace-nowrap">
+                    {website.crawled_at ? new Date(website.crawled_at).toLocaleString() : '—'}
+                  </td>
+                  <td className="py-3 pr-4 max-w-md">
+                    <p className="line-clamp-3 text-muted-foreground">{website.summary || '—'}</p>
+                  </td>
+                  <td className="py-3 text-right whitespace-nowrap">
+                    {busy[website.url] ? (
+                      <span className="inline-flex items-center gap-2 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {busy[website.url]}
+                      </span>
+                    ) : (
+                      <div className="inline-flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => recrawlWebsite(website.url)}>
+                          <RefreshCw className="h-4 w-4" />
+                          Re-crawl
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => deleteWebsite(website.url)}>
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { answerQuestion, generateVoiceResponse } from '@/lib/llm';
-import { searchSimilarContent, checkCollectionData } from '@/lib/database-milvus';
-import { createQueryEmbedding } from '@/lib/embeddings';
+import { answerQuestion, generateVoiceResponse, streamAnswer, streamVoiceResponse } from '@/lib/llm';
+import { getVectorStore } from '@/lib/vector-store';
+import { retrieveRelevantChunks } from '@/lib/retrieval';
+import { parseRerankOptions, RerankOptions } from '@/lib/reranker';
+import { buildRetrievalFilter, FilterExpression } from '@/lib/filters';
+import { ExpansionOptions, parseExpansionOptions } from '@/lib/context-expansion';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { buildCitations, Citation } from '@/lib/citations';
+import { createSSEResponse } from '@/lib/sse';
+import { formatHeadingPath } from '@/lib/chunker';
+import { appendMessages, Conversation, formatConversationHistory, getConversation, MessageSource } from '@/lib/conversations';
+import { parseRewriteOption, rewriteQuery } from '@/lib/query-rewriter';
+import type { LLMStream } from '@/lib/llm-providers';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
 
 // Handle CORS preflight
 export async function OPTIONS() {
-  return NextResponse.json({}, {
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
+  return NextResponse.json({}, { headers: CORS_HEADERS });
 }
 
 // Check if message is a greeting
@@ -41,14 +51,41 @@ function getGreetingResponse(): string {
   return responses[Math.floor(Math.random() * responses.length)];
 }
 
+// Reply with a fixed message (no retrieval or LLM call), as JSON or as a one-token event stream;
+// `record` stores the exchange in the conversation, if there is one
+async function fixedResponse(
+  response: string,
+  stream: boolean,
+  record: (response: string) => Promise<void>,
+  fields: { conversationId: string | null; rewrittenQuery?: string | null }
+) {
+  const data = { response, ...fields, relevantContent: [], sources: [], citations: [] };
+  if (stream) {
+    return createSSEResponse(async send => {
+      send('token', { text: response });
+      await record(response);
+      send('done', data);
+    }, { headers: CORS_HEADERS });
+  }
+  await record(response);
+  return NextResponse.json(data, { headers: CORS_HEADERS });
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { 
       message, 
-      conversationHistory = [], 
+      knowledgeBaseId,
+      conversationId, // Stored conversation to continue; its messages replace conversationHistory
+      conversationHistory: requestHistory = [], 
       isVoiceChat = false,
-      similarityThreshold = 0.2, // Very low threshold (0.2 = 80% distance) to catch more results
+      stream = false, // Stream tokens as Server-Sent Events instead of returning one JSON body
+      rerank, // Optional rerank stage: true/false, 'llm', 'lexical' or { mode, topN, minScore }
+      filters, // Optional { domain, pathPrefix, urls, crawledAfter, crawledBefore, contentType, attributes } restricting retrieval
+      expand, // Optional context expansion: true/false, 'neighbors', 'section', a neighbour count or { mode, window, maxChars }
+      rewriteQuery: rewrite, // Rewrite follow-ups into standalone queries using the history (default QUERY_REWRITE)
+      similarityThreshold = 0.5, // Cosine similarity (0-1) a vector match needs to be a candidate
       maxResults = 5 
     } = body;
 
@@ -56,103 +93,174 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
 
+    let rerankOptions: RerankOptions;
+    try {
+      rerankOptions = parseRerankOptions(rerank);
+    } catch (rerankError) {
+      return NextResponse.json({ error: rerankError instanceof Error ? rerankError.message : 'Invalid rerank option' }, { status: 400 });
+    }
+
+    let expansionOptions: ExpansionOptions;
+    try {
+      expansionOptions = parseExpansionOptions(expand);
+    } catch (expandError) {
+      return NextResponse.json({ error: expandError instanceof Error ? expandError.message : 'Invalid expand option' }, { status: 400 });
+    }
+
+    let retrievalFilter: FilterExpression | null;
+    try {
+      retrievalFilter = buildRetrievalFilter(filters);
+    } catch (filterError) {
+      return NextResponse.json({ error: filterError instanceof Error ? filterError.message : 'Invalid filters' }, { status: 400 });
+    }
+
+    let conversation: Conversation | null = null;
+    if (conversationId) {
+      conversation = await getConversation(String(conversationId));
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+      if (knowledgeBaseId && knowledgeBaseId !== conversation.knowledgeBaseId) {
+        return NextResponse.json(
+          { error: `Conversation belongs to knowledge base ${conversation.knowledgeBaseId}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Answers only ever come from the requested knowledge base (or the conversation's)
+    const knowledgeBase = await getKnowledgeBase(conversation ? conversation.knowledgeBaseId : knowledgeBaseId);
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const conversationHistory: string[] = conversation ? formatConversationHistory(conversation) : requestHistory;
+
+    // Store the question and answer, with the answer's sources, in the conversation
+    const recordTurn = async (response: string, sources: MessageSource[] = [], citations: Citation[] = [], stopped = false) => {
+      if (!conversation) return;
+      await appendMessages(conversation.id, [
+        { role: 'user', content: message },
+        { role: 'assistant', content: response, sources, citations, ...(stopped ? { stopped } : {}) },
+      ]);
+    };
+    let rewrittenQuery: string | null = null;
+    const fixed = (response: string) =>
+      fixedResponse(response, stream, recordTurn, { conversationId: conversation?.id ?? null, rewrittenQuery });
+
     // Handle greetings
     if (isGreeting(message)) {
-      return NextResponse.json({
-        response: getGreetingResponse(),
-        relevantContent: [],
-        sources: [],
-      }, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      });
+      return fixed(getGreetingResponse());
     }
 
     // Check if collection has data first
-    const collectionStatus = await checkCollectionData();
+    const collectionStatus = await getVectorStore().checkCollectionData(knowledgeBase.collectionName);
     if (!collectionStatus.hasData) {
-      return NextResponse.json({
-        response: "I don't have any website content stored yet. Please crawl a website first from the homepage.",
-        relevantContent: [],
-        sources: [],
-      }, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      });
+      return fixed("I don't have any website content stored yet. Please crawl a website first from the homepage.");
     }
 
-    // Generate embedding for the user's message
-    const messageEmbedding = await createQueryEmbedding(message);
-    console.log(`Query embedding generated: ${messageEmbedding.length} dimensions`);
+    // Follow-ups like "how much does it cost?" only retrieve the right chunks once the
+    // conversation has been folded into a standalone query
+    const { query, rewritten } = await rewriteQuery(message, conversationHistory, parseRewriteOption(rewrite));
+    rewrittenQuery = rewritten ? query : null;
 
-    // Search for relevant content
-    const relevantContent = await searchSimilarContent(
-      messageEmbedding, 
-      maxResults, 
-      similarityThreshold
-    );
+    // Search for relevant content (vector similarity fused with keyword matches)
+    const relevantContent = await retrieveRelevantChunks(knowledgeBase.collectionName, query, {
+      limit: maxResults,
+      similarityThreshold,
+      rerank: rerankOptions,
+      filters: retrievalFilter ?? undefined,
+      expand: expansionOptions,
+    });
     
     console.log(`Found ${relevantContent.length} relevant content chunks`);
 
     // If no relevant content found, provide helpful response
     if (relevantContent.length === 0) {
-      return NextResponse.json({
-        response: "I don't have enough information about this topic from the crawled website content. Could you try asking about something else or provide more context?",
-        relevantContent: [],
-        sources: [],
-      }, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      });
+      return fixed("I don't have enough information about this topic from the crawled website content. Could you try asking about something else or provide more context?");
     }
 
-    // Extract content text and sources
-    interface SearchResult {
-      content: string;
-      url: string;
-      title: string;
-      similarity: number;
-      metadata: any;
-    }
-    const contentTexts = relevantContent.map((item: SearchResult) => item.content);
-    const sources = relevantContent.map((item: SearchResult) => ({
+    // Extract content text and sources; the section is the chunk's heading path within its page
+    const contextChunks = relevantContent.map(item => ({ ...item, section: formatHeadingPath(item.metadata.attributes.headingPath) }));
+    const contentTexts = relevantContent.map(item => item.content);
+    const sources: MessageSource[] = contextChunks.map(item => ({
       url: item.url,
       title: item.title,
+      section: item.section,
       similarity: item.similarity,
+      relevance: item.relevance, // Calibrated 0-1 score when reranked, otherwise null
+      contentType: item.metadata.content_type,
+      keyPoints: item.metadata.attributes.keyPoints || [],
     }));
 
-    // Generate response using appropriate method
-    let response: string;
-    if (isVoiceChat) {
-      response = await generateVoiceResponse(message, contentTexts, conversationHistory);
-    } else {
-      response = await answerQuestion(message, contentTexts);
+    // Stream tokens as they are generated; the final event carries the same fields as the JSON response
+    if (stream) {
+      return createSSEResponse(async (send, signal) => {
+        let response = '';
+        let result: LLMStream;
+        try {
+          result = isVoiceChat
+            ? await streamVoiceResponse(message, contentTexts, conversationHistory, signal)
+            : await streamAnswer(query, contextChunks, signal);
+          for await (const text of result.tokens) {
+            response += text;
+            send('token', { text });
+          }
+        } finally {
+          // Stopping generation aborts the request; keep the partial answer the user saw so the
+          // stored conversation matches the chatbox
+          if (signal.aborted) {
+            await recordTurn(response, sources, isVoiceChat ? [] : buildCitations(response, relevantContent), true);
+          }
+        }
+        if (signal.aborted) {
+          return;
+        }
+
+        const { provider, model } = result;
+        const citations = isVoiceChat ? [] : buildCitations(response, relevantContent);
+        await recordTurn(response, sources, citations);
+
+        send('done', {
+          response,
+          knowledgeBaseId: knowledgeBase.id,
+          conversationId: conversation?.id ?? null,
+          rewrittenQuery,
+          provider,
+          model,
+          relevantContent: contentTexts,
+          sources,
+          citations,
+          conversationHistory: [...conversationHistory, `User: ${message}`, `Assistant: ${response}`],
+        });
+      }, { signal: request.signal, headers: CORS_HEADERS });
     }
 
+    // Generate response using appropriate method; the text prompt has no history, so it gets the
+    // standalone question
+    const { text: response, provider, model } = isVoiceChat
+      ? await generateVoiceResponse(message, contentTexts, conversationHistory)
+      : await answerQuestion(query, contextChunks);
+
+    // Maps each [n] marker in the answer to the chunk it cites (voice answers carry no markers)
+    const citations = isVoiceChat ? [] : buildCitations(response, relevantContent);
+    await recordTurn(response, sources, citations);
+
     // Return response in format that Vapi can use
     const responseData = {
       response, // Main response text for Vapi
+      knowledgeBaseId: knowledgeBase.id,
+      conversationId: conversation?.id ?? null,
+      rewrittenQuery, // Standalone query retrieval used when the message was a follow-up, otherwise null
+      provider, // LLM provider and model that produced the answer (may be the fallback)
+      model,
       relevantContent: contentTexts,
       sources,
+      citations,
       conversationHistory: [...conversationHistory, `User: ${message}`, `Assistant: ${response}`],
     };
 
-    return NextResponse.json(responseData, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      },
-    });
+    return NextResponse.json(responseData, { headers: CORS_HEADERS });
 
   } catch (error) {
     console.error('Chat API error:', error);
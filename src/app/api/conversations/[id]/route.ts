@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteConversation, getConversation } from '@/lib/conversations';
+
+// Get a conversation with its messages, sources and timestamps
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const conversation = await getConversation(id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a conversation and its messages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteConversation(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true, id });
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createConversation, listConversations } from '@/lib/conversations';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+
+// List stored conversations (optionally for ?knowledgeBaseId=), most recently active first
+export async function GET(request: NextRequest) {
+  try {
+    const knowledgeBaseId = request.nextUrl.searchParams.get('knowledgeBaseId') || undefined;
+    const conversations = await listConversations(knowledgeBaseId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a conversation: { knowledgeBaseId?, title? }; messages are added through /api/chat
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { knowledgeBaseId, title } = body;
+
+    const knowledgeBase = await getKnowledgeBase(knowledgeBaseId);
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const conversation = await createConversation({
+      knowledgeBaseId: knowledgeBase.id,
+      title: typeof title === 'string' ? title : undefined,
+    });
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
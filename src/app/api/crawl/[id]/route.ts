@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelCrawlJob, getCrawlJob } from '@/lib/crawl-jobs';
+
+// Report the phase, progress and errors of a crawl job
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const job = getCrawlJob(id);
+
+    if (!job) {
+        return NextResponse.json({ error: 'Crawl job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+}
+
+// Cancel a running crawl job
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const job = cancelCrawlJob(id);
+
+    if (!job) {
+        return NextResponse.json({ error: 'Crawl job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ cancelled: true, job });
+}
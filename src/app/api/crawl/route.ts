@@ -1,136 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processContentForEmbeddings } from '@/lib/embeddings';
-import { extractKeyInfo, summarizeContent } from '@/lib/llm';
-import { initializeDatabase, storeWebsiteChunks } from '@/lib/database-milvus';
+import { CrawlJobOptions, parseCrawlJobOptions, startCrawlJob } from '@/lib/crawl-jobs';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { isReindexing } from '@/lib/reindex';
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { url } = body;
+        const { url, knowledgeBaseId, maxDepth, maxPages, userAgent, respectRobots, useSitemap, includeDocuments, contentExtraction, fetcher } = body;
 
         if (!url) {
             return NextResponse.json({ error: 'URL is required' }, { status: 400 });
         }
 
-        // Initialize database if not already done
-        await initializeDatabase();
-
-        // Forward the request to your backend server
-        const response = await fetch('http://localhost:8000/crawl', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ url }),
-        });
-
-        if (!response.ok) {
-            // Try to get error details from the response
-            let errorMessage = `Backend server responded with status: ${response.status}`;
-            try {
-                const errorData = await response.json();
-                errorMessage = errorData.message || errorData.error || errorMessage;
-                console.error('Crawler service error details:', errorData);
-            } catch (e) {
-                const errorText = await response.text();
-                console.error('Crawler service error text:', errorText);
-                errorMessage = errorText || errorMessage;
-            }
-            throw new Error(errorMessage);
+        try {
+            new URL(url);
+        } catch {
+            return NextResponse.json({ error: 'URL is invalid' }, { status: 400 });
         }
 
-        const crawledResponse = await response.json();
-        console.log('Crawled response received:', {
-            success: crawledResponse.success,
-            hasData: !!crawledResponse.data,
-            keys: Object.keys(crawledResponse)
-        });
-
-        // Extract the actual crawled data from the response
-        const crawledData = crawledResponse.data || crawledResponse;
-        console.log('Crawled data extracted:', {
-            hasContent: !!crawledData.content,
-            contentLength: crawledData.content?.length || 0,
-            title: crawledData.title,
-            keys: Object.keys(crawledData)
-        });
-
-        // Process the crawled content for embeddings
-        if (crawledData.content) {
-            console.log('Processing content with Gemini LLM and embeddings...');
-
-            try {
-                // Extract key information using Gemini
-                console.log('Extracting key info...');
-                const keyInfo = await extractKeyInfo(crawledData.content);
-                console.log('Key info extracted:', keyInfo);
-
-                // Generate summary using Gemini
-                console.log('Generating summary...');
-                const summary = await summarizeContent(crawledData.content);
-                console.log('Summary generated:', summary.substring(0, 100) + '...');
-
-                // Process content for embeddings using LangChain + Gemini
-                console.log('Processing embeddings...');
-                const contentChunks = await processContentForEmbeddings(
-                    crawledData.content,
-                    {
-                        sourceUrl: url,
-                        crawledAt: new Date().toISOString(),
-                        contentType: crawledData.contentType || 'text/html',
-                        summary,
-                        keyPoints: keyInfo.keyPoints,
-                    }
-                );
-                console.log(`Generated ${contentChunks.length} content chunks`);
-
-                // Store in Milvus database
-                console.log('Storing in Milvus database...');
-                const storeResult = await storeWebsiteChunks(
-                    url,
-                    keyInfo.title || crawledData.title || 'Untitled',
-                    keyInfo.description || crawledData.description || summary,
-                    contentChunks
-                );
-
-                console.log(`Successfully stored ${storeResult.chunksStored} content chunks for website: ${url}`);
+        // Rejects limits like maxPages: "abc" that would otherwise crawl nothing, and switches like respectRobots: "false"
+        let crawlOptions: CrawlJobOptions;
+        try {
+            crawlOptions = parseCrawlJobOptions({
+                maxDepth,
+                maxPages,
+                userAgent,
+                respectRobots,
+                useSitemap,
+                includeDocuments,
+                contentExtraction,
+                fetcher,
+            });
+        } catch (optionsError) {
+            return NextResponse.json({ error: optionsError instanceof Error ? optionsError.message : 'Invalid crawl options' }, { status: 400 });
+        }
 
-                // Return enhanced data with AI-generated insights
-                return NextResponse.json({
-                    ...crawledData,
-                    stored: true,
-                    websiteUrl: url,
-                    chunksStored: storeResult.chunksStored,
-                    aiEnhanced: {
-                        title: keyInfo.title,
-                        description: keyInfo.description,
-                        summary,
-                        keyPoints: keyInfo.keyPoints,
-                    },
-                });
+        const knowledgeBase = await getKnowledgeBase(knowledgeBaseId);
+        if (!knowledgeBase) {
+            return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+        }
 
-            } catch (processingError) {
-                console.error('Error processing content:', processingError);
-                
-                // Return crawled data without AI processing
-                return NextResponse.json({
-                    ...crawledData,
-                    stored: false,
-                    websiteUrl: url,
-                    processingError: processingError instanceof Error ? processingError.message : 'Unknown processing error',
-                });
-            }
-        } else {
-            console.log('No content found in crawled data, skipping storage');
+        // Pages stored during a re-index would be lost when the rebuilt collection is swapped in
+        if (isReindexing(knowledgeBase.collectionName)) {
+            return NextResponse.json({ error: 'Knowledge base is being re-indexed; try again once it finishes' }, { status: 409 });
         }
 
-        return NextResponse.json(crawledData);
+        // Crawling, summarizing, embedding and storing all happen in the background;
+        // clients poll GET /api/crawl/{id} for progress
+        const job = startCrawlJob(knowledgeBase.id, url, crawlOptions);
+
+        return NextResponse.json({
+            jobId: job.id,
+            knowledgeBaseId: knowledgeBase.id,
+            phase: job.phase,
+            websiteUrl: url,
+            statusUrl: `/api/crawl/${job.id}`,
+        }, { status: 202 });
 
     } catch (error) {
         console.error('Crawl API error:', error);
         return NextResponse.json(
-            { error: 'Failed to crawl website', details: error instanceof Error ? error.message : 'Unknown error' },
+            { error: 'Failed to start crawl', details: error instanceof Error ? error.message : 'Unknown error' },
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectDocumentFormat, extractDocument, MAX_DOCUMENT_BYTES, uploadSourceUrl } from '@/lib/documents';
+import { getEmbeddingSpec } from '@/lib/embedding-providers';
+import { generateSiteInsights, ingestPage } from '@/lib/ingestion';
+import { getChunkingOptions, getKnowledgeBase } from '@/lib/knowledge-bases';
+import { isReindexing } from '@/lib/reindex';
+import { getVectorStore } from '@/lib/vector-store';
+
+// Upload documents into a knowledge base: multipart form with one or more `file` fields
+// (PDF, DOCX, Markdown, TXT or CSV) and an optional `knowledgeBaseId`. Each file is stored under
+// upload://documents/{file name}, so uploading the same file name again replaces its chunks.
+export async function POST(request: NextRequest) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected a multipart/form-data body' }, { status: 400 });
+    }
+
+    const files = formData.getAll('file').filter((value): value is File => typeof value !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'At least one file is required' }, { status: 400 });
+    }
+
+    for (const file of files) {
+      if (!detectDocumentFormat(file.name, file.type)) {
+        return NextResponse.json(
+          { error: `Unsupported file type: ${file.name} (expected PDF, DOCX, Markdown, TXT or CSV)` },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_DOCUMENT_BYTES) {
+        return NextResponse.json({ error: `${file.name} is larger than ${MAX_DOCUMENT_BYTES} bytes` }, { status: 413 });
+      }
+    }
+
+    const knowledgeBaseId = formData.get('knowledgeBaseId');
+    const knowledgeBase = await getKnowledgeBase(typeof knowledgeBaseId === 'string' ? knowledgeBaseId : null);
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    // Documents stored during a re-index would be lost when the rebuilt collection is swapped in
+    if (isReindexing(knowledgeBase.collectionName)) {
+      return NextResponse.json({ error: 'Knowledge base is being re-indexed; try again once it finishes' }, { status: 409 });
+    }
+
+    // Initialize database if not already done (fails if the collection uses another embedding model)
+    await getVectorStore().initializeDatabase(knowledgeBase.collectionName, getEmbeddingSpec());
+
+    const documents: Array<Awaited<ReturnType<typeof ingestPage>> & { fileName: string; contentType: string }> = [];
+    const errors: Array<{ fileName: string; error: string }> = [];
+    const crawledAt = new Date().toISOString();
+
+    await getVectorStore().batchWrites(knowledgeBase.collectionName, async () => {
+      for (const file of files) {
+        try {
+          const extracted = await extractDocument(Buffer.from(await file.arrayBuffer()), file.name, file.type);
+          if (!extracted.content) {
+            errors.push({ fileName: file.name, error: 'No text found in document' });
+            continue;
+          }
+
+          // Each document is its own source, so it gets its own summary and key points
+          const insights = await generateSiteInsights(extracted.content);
+          const result = await ingestPage({ url: uploadSourceUrl(file.name), ...extracted }, insights, {
+            collectionName: knowledgeBase.collectionName,
+            crawledAt,
+            chunking: getChunkingOptions(knowledgeBase),
+          });
+          documents.push({ fileName: file.name, contentType: extracted.contentType, ...result });
+        } catch (documentError) {
+          console.error(`Error ingesting document ${file.name}:`, documentError);
+          errors.push({
+            fileName: file.name,
+            error: documentError instanceof Error ? documentError.message : 'Unknown processing error',
+          });
+        }
+      }
+    });
+
+    return NextResponse.json(
+      { knowledgeBaseId: knowledgeBase.id, documents, errors },
+      { status: documents.length > 0 ? 201 : 422 }
+    );
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest documents', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchSimilarContent, checkCollectionData } from '@/lib/database-milvus';
-import { createQueryEmbedding } from '@/lib/embeddings';
+import { getVectorStore } from '@/lib/vector-store';
+import { retrieveRelevantChunks, RetrievedChunk } from '@/lib/retrieval';
+import { parseRerankOptions } from '@/lib/reranker';
+import { parseExpansionOptions } from '@/lib/context-expansion';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { parseRewriteOption, rewriteQuery } from '@/lib/query-rewriter';
 import crypto from 'crypto';
 
 // Handle CORS preflight
@@ -159,6 +163,8 @@ export async function POST(request: NextRequest) {
 
     // Prefer messagesOpenAIFormatted as it has the complete, combined user message
     let query: string | null = null;
+    // Earlier turns as "User: ..." / "Assistant: ..." lines, used to rewrite follow-up questions
+    let conversationHistory: string[] = [];
     
     // First try: Use messagesOpenAIFormatted (cleaner, combined messages)
     const openAIMessages = body.message?.messagesOpenAIFormatted || body.message?.artifact?.messagesOpenAIFormatted || [];
@@ -169,6 +175,9 @@ export async function POST(request: NextRequest) {
         if (msg?.role === 'user' && msg?.content) {
           query = String(msg.content).trim();
           console.log('Found query from messagesOpenAIFormatted:', query);
+          conversationHistory = openAIMessages.slice(0, i)
+            .filter((earlier: any) => (earlier?.role === 'user' || earlier?.role === 'assistant') && typeof earlier?.content === 'string' && earlier.content.trim())
+            .map((earlier: any) => `${earlier.role === 'user' ? 'User' : 'Assistant'}: ${earlier.content.trim()}`);
           break;
         }
       }
@@ -203,108 +212,52 @@ export async function POST(request: NextRequest) {
     query = cleanQuery(query);
     console.log(`Vapi knowledge base query (cleaned): "${query}"`);
 
-    // Extract key terms from the query for better search
-    // Focus on names, important nouns, and key phrases
-    function extractKeyTerms(text: string): string {
-      // Remove common stop words but keep important terms
-      const stopWords = new Set([
-        'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 
-        'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'be', 
-        'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 
-        'would', 'should', 'could', 'may', 'might', 'must', 'can', 'this', 
-        'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
-        'what', 'where', 'when', 'why', 'how', 'tell', 'me', 'about', 'am',
-        'not', 'no', 'yes', 'yeah', 'um', 'uh'
-      ]);
-      
-      // First, try to extract capitalized names (proper nouns) - these are usually important
-      const capitalizedWords = text.match(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g) || [];
-      
-      // Then get other important words
-      const words = text.toLowerCase()
-        .replace(/[^\w\s]/g, ' ') // Remove punctuation
-        .split(/\s+/)
-        .filter(word => word.length > 2 && !stopWords.has(word));
-      
-      // Combine capitalized names (which are likely important) with other key terms
-      const allTerms = [
-        ...capitalizedWords.map(w => w.toLowerCase()), // Add names
-        ...words // Add other important words
-      ];
-      
-      // Remove duplicates and return top terms
-      const uniqueTerms = Array.from(new Set(allTerms));
-      
-      // Prioritize longer terms and return top 8-10 terms for better coverage
-      return uniqueTerms
-        .sort((a, b) => b.length - a.length) // Longer words first
-        .slice(0, 10) // Top 10 key terms for better search coverage
-        .join(' ');
-    }
-
-    // Create a focused search query from key terms
-    // BUT: If query contains a name (capitalized words) or is short, use original query
-    const hasName = /[A-Z][a-z]+(?:\s+[A-Z][a-z]+)+/.test(query); // Detects multi-word capitalized names
-    const isShortQuery = query.split(/\s+/).length <= 5; // Short queries (5 words or less)
-    
-    let searchQuery: string;
-    if (hasName || isShortQuery) {
-      // For queries with names or short queries, use the original query
-      // Key term extraction might remove important context
-      searchQuery = query;
-      console.log(`Using original query (contains name or is short): "${searchQuery}"`);
-    } else {
-      // For longer queries, extract key terms to focus the search
-      const keyTerms = extractKeyTerms(query);
-      searchQuery = keyTerms || query;
-      console.log(`Extracted key terms for search: "${searchQuery}"`);
-    }
-
     // Skip very short queries (less than 2 characters) - they won't match anything useful
     if (query.trim().length < 2) {
       console.log(`Query "${query}" is too short, returning empty documents`);
       return NextResponse.json({ documents: [] });
     }
 
+    // The knowledge base is chosen by the ?knowledgeBaseId= query param on the Vapi server URL
+    const knowledgeBaseId = request.nextUrl.searchParams.get('knowledgeBaseId');
+    const knowledgeBase = await getKnowledgeBase(knowledgeBaseId);
+    if (!knowledgeBase) {
+      console.log(`Knowledge base ${knowledgeBaseId} not found, returning empty documents`);
+      return NextResponse.json({ documents: [] });
+    }
+
     // Check if collection has data
-    const collectionStatus = await checkCollectionData();
+    const collectionStatus = await getVectorStore().checkCollectionData(knowledgeBase.collectionName);
     if (!collectionStatus.hasData) {
       console.log('No data in collection, returning empty documents');
       return NextResponse.json({ documents: [] });
     }
 
-    // Generate embedding for the search query (use key terms if available, otherwise original query)
-    let queryEmbedding: number[];
+    // Fold the conversation into follow-up questions ("how much does it cost?") before retrieval;
+    // turned off with ?rewrite=false on the Vapi server URL
+    const { query: retrievalQuery, rewritten } = await rewriteQuery(
+      query,
+      conversationHistory,
+      parseRewriteOption(request.nextUrl.searchParams.get('rewrite'))
+    );
+
+    // Hybrid retrieval: exact keyword matches (names, product codes) fused with semantic matches,
+    // optionally reranked via ?rerank=llm|lexical|none and expanded with neighbouring chunks via
+    // ?expand=neighbors|section|<count> on the Vapi server URL
+    let topDocuments: RetrievedChunk[];
     try {
-      // Use the focused search query (key terms) for better semantic matching
-      queryEmbedding = await createQueryEmbedding(searchQuery);
-      console.log(`Query embedding generated from "${searchQuery}": ${queryEmbedding.length} dimensions`);
+      topDocuments = await retrieveRelevantChunks(knowledgeBase.collectionName, retrievalQuery, {
+        limit: 5,
+        similarityThreshold: 0.5, // Cosine similarity (0-1); matches the chat endpoint default
+        rerank: parseRerankOptions(request.nextUrl.searchParams.get('rerank')),
+        expand: parseExpansionOptions(request.nextUrl.searchParams.get('expand')),
+      });
     } catch (error) {
-      console.error('Error generating query embedding:', error);
+      console.error('Error retrieving documents:', error);
       return NextResponse.json({ documents: [] });
     }
 
-    // Search Milvus for relevant content
-    // Use a more reasonable threshold (0.2) to match chat endpoint behavior
-    // This will filter out very poor matches while still allowing negative similarities
-    // Increase maxResults significantly to get more candidates, especially for name searches
-    const maxSearchResults = hasName ? 15 : 10; // More results for name searches
-    const relevantContent = await searchSimilarContent(
-      queryEmbedding,
-      maxSearchResults, // Get more candidates to find better matches
-      0.2 // similarityThreshold: Match chat endpoint threshold for consistency
-    );
-
-    console.log(`Found ${relevantContent.length} relevant documents for Vapi`);
-
-    // Sort by similarity (highest first) and take top documents for Vapi
-    // Return more documents for name searches to increase chances of finding the person
-    const topCount = hasName ? 7 : 5; // More documents for name searches
-    const topDocuments = relevantContent
-      .sort((a: any, b: any) => (b.similarity || 0) - (a.similarity || 0))
-      .slice(0, topCount);
-
-    console.log(`Returning top ${topDocuments.length} documents to Vapi (sorted by similarity, hasName: ${hasName})`);
+    console.log(`Returning top ${topDocuments.length} documents to Vapi (ranked by fused score)`);
 
     // Format results for Vapi
     // Include title and URL in content for better context (helps LLM understand the source)
@@ -324,7 +277,8 @@ export async function POST(request: NextRequest) {
       
       const doc = {
         content: enhancedContent,
-        similarity: item.similarity || 0,
+        // Prefer the calibrated rerank score when the rerank stage ran
+        similarity: item.relevance ?? item.similarity ?? 0,
         uuid: item.metadata?.id?.toString() || url || undefined,
       };
       
@@ -337,7 +291,8 @@ export async function POST(request: NextRequest) {
     console.log(`Sending ${documents.length} documents to Vapi`);
 
     return NextResponse.json(
-      { documents },
+      // rewrittenQuery is for debugging; Vapi only reads documents
+      { documents, rewrittenQuery: rewritten ? retrievalQuery : null },
       {
         headers: {
           'Access-Control-Allow-Origin': '*',
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { getVectorStore } from '@/lib/vector-store';
+
+// Get a stored chunk by ID, with up to ?neighbors=N chunks either side of it on the same page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chunkId: string }> }
+) {
+  try {
+    const { id, chunkId } = await params;
+    const neighbors = Math.min(Math.max(Number(request.nextUrl.searchParams.get('neighbors')) || 0, 0), 10);
+    const knowledgeBase = await getKnowledgeBase(id);
+
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const [chunk] = await getVectorStore().getChunksByIds(knowledgeBase.collectionName, [chunkId]);
+    if (!chunk) {
+      return NextResponse.json({ error: 'Chunk not found' }, { status: 404 });
+    }
+
+    // Chunks stored before positions were recorded have no neighbours to look up
+    const pageChunks = neighbors > 0 && chunk.chunk_index !== null
+      ? await getVectorStore().getPageChunks(knowledgeBase.collectionName, chunk.page_url, {
+          from: chunk.chunk_index - neighbors,
+          to: chunk.chunk_index + neighbors,
+        })
+      : [];
+
+    return NextResponse.json({
+      chunk,
+      previous: pageChunks.filter(pageChunk => pageChunk.chunk_index! < chunk.chunk_index!),
+      next: pageChunks.filter(pageChunk => pageChunk.chunk_index! > chunk.chunk_index!),
+    });
+  } catch (error) {
+    console.error('Chunk API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get chunk', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
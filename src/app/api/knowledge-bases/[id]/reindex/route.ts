@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listCrawlJobs } from '@/lib/crawl-jobs';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { isReindexing, reindexCollection } from '@/lib/reindex';
+
+// Rebuild a knowledge base's collection by re-embedding its stored chunks (no re-crawl).
+// Migrates legacy L2 collections to the cosine index and to the configured embedding model.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const knowledgeBase = await getKnowledgeBase(id);
+
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    if (isReindexing(knowledgeBase.collectionName)) {
+      return NextResponse.json({ error: 'Knowledge base is already being re-indexed' }, { status: 409 });
+    }
+    // Pages a running crawl stores after the chunks are read would be lost in the swap
+    const runningJobs = listCrawlJobs().filter(job => job.knowledgeBaseId === knowledgeBase.id && !job.finishedAt);
+    if (runningJobs.length > 0) {
+      return NextResponse.json(
+        { error: 'Wait for the running crawls of this knowledge base to finish', jobIds: runningJobs.map(job => job.id) },
+        { status: 409 }
+      );
+    }
+
+    const result = await reindexCollection(knowledgeBase.collectionName);
+    return NextResponse.json({ knowledgeBaseId: knowledgeBase.id, ...result });
+  } catch (error) {
+    console.error('Re-index API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-index knowledge base', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteConversation, listConversations } from '@/lib/conversations';
+import { listCrawlJobs } from '@/lib/crawl-jobs';
+import {
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  deleteKnowledgeBase,
+  getChunkingOptions,
+  getKnowledgeBase,
+  parseChunkingOptions,
+  updateKnowledgeBase,
+} from '@/lib/knowledge-bases';
+import { isReindexing } from '@/lib/reindex';
+import { clearSchedule, listSchedules } from '@/lib/schedules';
+import { getVectorStore } from '@/lib/vector-store';
+
+// Get a knowledge base, how many chunks it holds and how they were embedded
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const knowledgeBase = await getKnowledgeBase(id);
+
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const collectionStatus = await getVectorStore().checkCollectionData(knowledgeBase.collectionName);
+    return NextResponse.json({
+      knowledgeBase,
+      hasData: collectionStatus.hasData,
+      chunkCount: collectionStatus.count,
+      // Embedding model, dimension and metric (L2 means the collection predates cosine and needs a re-index)
+      embedding: await getVectorStore().getEmbeddingInfo(knowledgeBase.collectionName),
+      // Effective chunk size and overlap (knowledge base settings over the CHUNK_* defaults)
+      chunking: getChunkingOptions(knowledgeBase),
+    });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get knowledge base', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Update a knowledge base: { name?, description?, chunking?: { chunkSize, chunkOverlap } }.
+// New chunking settings apply to content crawled or uploaded afterwards; re-crawl to re-chunk.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { name, description, chunking } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'Name must be a non-empty string' }, { status: 400 });
+    }
+
+    let chunkingOptions;
+    try {
+      chunkingOptions = parseChunkingOptions(chunking);
+    } catch (chunkingError) {
+      return NextResponse.json({ error: chunkingError instanceof Error ? chunkingError.message : 'Invalid chunking settings' }, { status: 400 });
+    }
+
+    const knowledgeBase = await updateKnowledgeBase(id, {
+      name: typeof name === 'string' ? name.trim() : undefined,
+      description,
+      chunking: chunkingOptions,
+    });
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ knowledgeBase });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update knowledge base', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a knowledge base and all of its content
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+      return NextResponse.json({ error: 'The default knowledge base cannot be deleted' }, { status: 400 });
+    }
+
+    const knowledgeBase = await getKnowledgeBase(id);
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    // A running crawl or re-index would keep writing to (or swap back) the dropped collection
+    if (isReindexing(knowledgeBase.collectionName)) {
+      return NextResponse.json({ error: 'Knowledge base is being re-indexed; try again once it finishes' }, { status: 409 });
+    }
+    const runningJobs = listCrawlJobs().filter(job => job.knowledgeBaseId === knowledgeBase.id && !job.finishedAt);
+    if (runningJobs.length > 0) {
+      return NextResponse.json(
+        { error: 'Cancel or wait for the running crawls of this knowledge base first', jobIds: runningJobs.map(job => job.id) },
+        { status: 409 }
+      );
+    }
+
+    const deleted = await deleteKnowledgeBase(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    // Nothing left to refresh or chat about once the knowledge base is gone
+    for (const schedule of await listSchedules(id)) {
+      await clearSchedule(id, schedule.url);
+    }
+    for (const conversation of await listConversations(id)) {
+      await deleteConversation(conversation.id);
+    }
+
+    return NextResponse.json({ deleted: true, id });
+  } catch (error) {
+    console.error('Knowledge base API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete knowledge base', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createKnowledgeBase, listKnowledgeBases, parseChunkingOptions } from '@/lib/knowledge-bases';
+
+// List all knowledge bases
+export async function GET() {
+  try {
+    const knowledgeBases = await listKnowledgeBases();
+    return NextResponse.json({ knowledgeBases });
+  } catch (error) {
+    console.error('Knowledge bases API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list knowledge bases', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a knowledge base: { name, description?, chunking?: { chunkSize, chunkOverlap } }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, description, chunking } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    let chunkingOptions;
+    try {
+      chunkingOptions = parseChunkingOptions(chunking);
+    } catch (chunkingError) {
+      return NextResponse.json({ error: chunkingError instanceof Error ? chunkingError.message : 'Invalid chunking settings' }, { status: 400 });
+    }
+
+    const knowledgeBase = await createKnowledgeBase({ name: name.trim(), description, chunking: chunkingOptions });
+    return NextResponse.json({ knowledgeBase }, { status: 201 });
+  } catch (error) {
+    console.error('Knowledge bases API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create knowledge base', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVectorStore, WebsiteSummary } from '@/lib/vector-store';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { clearSchedule, listSchedules, setSchedule } from '@/lib/schedules';
+
+// List refresh schedules (optionally for ?knowledgeBaseId=) alongside the indexed website data they refresh
+export async function GET(request: NextRequest) {
+  try {
+    const knowledgeBaseId = request.nextUrl.searchParams.get('knowledgeBaseId') || undefined;
+    const schedules = await listSchedules(knowledgeBaseId);
+
+    // Load website data once per knowledge base that has schedules
+    const websitesByKnowledgeBase = new Map<string, Map<string, WebsiteSummary>>();
+    for (const id of new Set(schedules.map(schedule => schedule.knowledgeBaseId))) {
+      const websitesByUrl = new Map<string, WebsiteSummary>();
+      try {
+        const knowledgeBase = await getKnowledgeBase(id);
+        if (knowledgeBase) {
+          const websites = await getVectorStore().getAllWebsites(knowledgeBase.collectionName);
+          websites.forEach(website => websitesByUrl.set(website.url, website));
+        }
+      } catch (error) {
+        console.warn(`Could not load websites for knowledge base ${id}:`, error);
+      }
+      websitesByKnowledgeBase.set(id, websitesByUrl);
+    }
+
+    return NextResponse.json({
+      schedules: schedules.map(schedule => ({
+        ...schedule,
+        website: websitesByKnowledgeBase.get(schedule.knowledgeBaseId)?.get(schedule.url) || null,
+      })),
+    });
+  } catch (error) {
+    console.error('Schedules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list schedules', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace a refresh schedule: { url, intervalHours } or { url, cron }, plus optional knowledgeBaseId
+// and crawlOptions (validated like the POST /api/crawl body; invalid values get a 400)
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, knowledgeBaseId, intervalHours, cron, crawlOptions } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const knowledgeBase = await getKnowledgeBase(knowledgeBaseId);
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    try {
+      const schedule = await setSchedule(knowledgeBase.id, url, { intervalHours, cron, crawlOptions });
+      return NextResponse.json({ schedule });
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid schedule' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Schedules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to set schedule', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear the refresh schedule for ?url= (and optional &knowledgeBaseId=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get('url');
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const knowledgeBase = await getKnowledgeBase(request.nextUrl.searchParams.get('knowledgeBaseId'));
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const cleared = await clearSchedule(knowledgeBase.id, url);
+    if (!cleared) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ cleared: true, knowledgeBaseId: knowledgeBase.id, url });
+  } catch (error) {
+    console.error('Schedules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear schedule', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeBase } from '@/lib/knowledge-bases';
+import { isReindexing } from '@/lib/reindex';
+import { clearSchedule } from '@/lib/schedules';
+import { getVectorStore } from '@/lib/vector-store';
+
+// List indexed websites in a knowledge base (?knowledgeBaseId=, default knowledge base otherwise)
+export async function GET(request: NextRequest) {
+  try {
+    const knowledgeBase = await getKnowledgeBase(request.nextUrl.searchParams.get('knowledgeBaseId'));
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    const websites = await getVectorStore().getAllWebsites(knowledgeBase.collectionName);
+    return NextResponse.json({ knowledgeBaseId: knowledgeBase.id, websites });
+  } catch (error) {
+    console.error('Websites API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list websites', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete all stored chunks for ?url= (and its refresh schedule, if any)
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get('url');
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const knowledgeBase = await getKnowledgeBase(request.nextUrl.searchParams.get('knowledgeBaseId'));
+    if (!knowledgeBase) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 });
+    }
+
+    // A delete during a re-index would be undone when the rebuilt collection is swapped in
+    if (isReindexing(knowledgeBase.collectionName)) {
+      return NextResponse.json({ error: 'Knowledge base is being re-indexed; try again once it finishes' }, { status: 409 });
+    }
+
+    const result = await getVectorStore().deleteWebsiteData(knowledgeBase.collectionName, url);
+    await clearSchedule(knowledgeBase.id, url);
+
+    return NextResponse.json({
+      deleted: true,
+      knowledgeBaseId: knowledgeBase.id,
+      url,
+      deletedChunks: result.deletedChunks,
+    });
+  } catch (error) {
+    console.error('Websites API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete website', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
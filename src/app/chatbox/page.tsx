@@ -4,18 +4,139 @@ import { useState, useRef, useEffect } from 'react';
 import VapiWidget from "./VapiWidget";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square, Plus, Trash2, MessageSquare } from 'lucide-react';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
-  sources?: Array<{ url: string; title: string; similarity: number }>;
+  sources?: Array<{ url: string; title: string; section?: string | null; similarity: number; contentType?: string | null; keyPoints?: string[] }>;
+  citations?: Citation[];
+  stopped?: boolean;
+}
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+interface Citation {
+  number: number;
+  chunkId: string;
+  url: string;
+  title: string;
+  section?: string | null;
+  snippet: string;
+}
+
+// Key points stored with the retrieved sources, de-duplicated, as a collapsible list
+function SourceKeyPoints({ sources }: { sources: NonNullable<Message['sources']> }) {
+  const keyPoints = Array.from(new Set(sources.flatMap(source => source.keyPoints || []))).slice(0, 5);
+  if (keyPoints.length === 0) return null;
+
+  return (
+    <details className="mt-2 text-xs">
+      <summary className="cursor-pointer opacity-75">Key points</summary>
+      <ul className="mt-1 list-disc pl-4 space-y-0.5 opacity-90">
+        {keyPoints.map((point, idx) => (
+          <li key={idx}>{point}</li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+// Answer text with clickable [n] markers; clicking one expands the quoted source passage
+function CitedAnswer({ content, citations }: { content: string; citations: Citation[] }) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+  const expandedCitation = expanded !== null ? byNumber.get(expanded) : undefined;
+
+  return (
+    <>
+      <p className="whitespace-pre-wrap break-words">
+        {content.split(/(\[\d+\])/).map((part, idx) => {
+          const number = part.match(/^\[(\d+)\]$/)?.[1];
+          const citation = number ? byNumber.get(Number(number)) : undefined;
+          if (!citation) return part;
+          return (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => setExpanded(expanded === citation.number ? null : citation.number)}
+              className={`mx-0.5 rounded px-1 text-xs font-medium align-super ${
+                expanded === citation.number ? 'bg-primary text-primary-foreground' : 'bg-background hover:bg-primary/20'
+              }`}
+              title={citation.title || citation.url}
+            >
+              {citation.number}
+            </button>
+          );
+        })}
+      </p>
+      {expandedCitation && (
+        <blockquote className="mt-2 border-l-2 border-primary pl-3 text-sm">
+          <p className="italic">&ldquo;{expandedCitation.snippet}&rdquo;</p>
+          <a
+            href={expandedCitation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs underline opacity-90 hover:opacity-100 block truncate mt-1"
+          >
+            [{expandedCitation.number}] {expandedCitation.title || expandedCitation.url}
+            {expandedCitation.section && ` › ${expandedCitation.section}`}
+          </a>
+        </blockquote>
+      )}
+    </>
+  );
+}
+
+// Knowledge base chosen with ?kb= (the default one otherwise)
+function getKnowledgeBaseId(): string {
+  return new URLSearchParams(window.location.search).get('kb') || 'default';
+}
+
+// Parse a Server-Sent Events body, calling onEvent for each complete event
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.substring(0, boundary);
+      buffer = buffer.substring(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event: ')) event = line.substring(7);
+        else if (line.startsWith('data: ')) data += line.substring(6);
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
 }
 
 export default function ChatBox() {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // True until the first streamed token of the current answer arrives
+  const [isWaiting, setIsWaiting] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -27,6 +148,63 @@ export default function ChatBox() {
     scrollToBottom();
   }, [messages]);
 
+  const loadConversations = async () => {
+    try {
+      const response = await fetch(`/api/conversations?knowledgeBaseId=${encodeURIComponent(getKnowledgeBaseId())}`);
+      const data = await response.json();
+      if (response.ok) {
+        setConversations(data.conversations);
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations();
+  }, []);
+
+  const openConversation = async (id: string) => {
+    if (isLoading) return;
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation');
+      }
+      setConversationId(id);
+      setMessages(data.conversation.messages.map((message: Message) => ({
+        role: message.role,
+        content: message.stopped ? `${message.content} (stopped)` : message.content,
+        sources: message.sources,
+        citations: message.citations,
+      })));
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      loadConversations();
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) return;
+    setConversationId(null);
+    setMessages([]);
+    inputRef.current?.focus();
+  };
+
+  const removeConversation = async (id: string) => {
+    try {
+      await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (id === conversationId) {
+        setConversationId(null);
+        setMessages([]);
+      }
+      setConversations(prev => prev.filter(conversation => conversation.id !== id));
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -39,8 +217,41 @@ export default function ChatBox() {
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
+    setIsWaiting(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Update the assistant message being streamed, adding it when the first event arrives
+    let answerStarted = false;
+    const updateAnswer = (update: (message: Message) => Message) => {
+      const isNew = !answerStarted;
+      answerStarted = true;
+      setMessages((prev) => isNew
+        ? [...prev, update({ role: 'assistant', content: '' })]
+        : [...prev.slice(0, -1), update(prev[prev.length - 1])]
+      );
+    };
 
     try {
+      // The first message of a new chat starts a stored conversation
+      let activeConversationId = conversationId;
+      if (!activeConversationId) {
+        const created = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ knowledgeBaseId: getKnowledgeBaseId() }),
+        });
+        const createdData = await created.json();
+        if (!created.ok) {
+          throw new Error(createdData.error || 'Failed to start conversation');
+        }
+        activeConversationId = createdData.conversation.id as string;
+        setConversationId(activeConversationId);
+      }
+
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
@@ -48,26 +259,43 @@ export default function ChatBox() {
         },
         body: JSON.stringify({
           message: userMessage.content,
+          // The server keeps the history and knowledge base of the conversation
+          conversationId: activeConversationId,
           isVoiceChat: false,
-          conversationHistory: messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`),
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
         throw new Error(errorData.error || errorData.details || `HTTP ${response.status}: Failed to get response`);
       }
 
-      const data = await response.json();
-
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: data.response,
-        sources: data.sources || [],
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
+      await readEventStream(response.body, (event, data) => {
+        if (event === 'token') {
+          setIsWaiting(false);
+          updateAnswer(message => ({ ...message, content: message.content + data.text }));
+        } else if (event === 'done') {
+          updateAnswer(message => ({
+            ...message,
+            content: data.response,
+            sources: data.sources || [],
+            citations: data.citations || [],
+          }));
+        } else if (event === 'error') {
+          throw new Error(data.error);
+        }
+      });
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever was generated so far
+        if (answerStarted) {
+          updateAnswer(message => ({ ...message, content: `${message.content} (stopped)` }));
+        }
+        return;
+      }
+
       console.error('Chat error:', error);
       const errorMessage: Message = {
         role: 'assistant',
@@ -77,15 +305,64 @@ export default function ChatBox() {
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      loadConversations();
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setIsWaiting(false);
       inputRef.current?.focus();
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
-    <div className="h-screen w-screen flex flex-col bg-background relative overflow-hidden">
-      {/* Main Chatbox - Full Page */}
-      <div className="flex-1 flex flex-col h-full">
+    <div className="h-screen w-screen flex bg-background relative overflow-hidden">
+      {/* Conversation Sidebar */}
+      <aside className="hidden md:flex w-64 flex-col border-r bg-card">
+        <div className="p-3 border-b">
+          <Button variant="outline" className="w-full justify-start gap-2" onClick={startNewConversation} disabled={isLoading}>
+            <Plus className="h-4 w-4" />
+            New chat
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {conversations.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2">No saved conversations yet</p>
+          ) : (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer ${
+                  conversation.id === conversationId ? 'bg-muted' : 'hover:bg-muted/50'
+                }`}
+                onClick={() => openConversation(conversation.id)}
+              >
+                <MessageSquare className="h-4 w-4 shrink-0 opacity-60" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{conversation.title || 'New conversation'}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(conversation.updatedAt).toLocaleString()}</p>
+                </div>
+                <button
+                  type="button"
+                  className="opacity-0 group-hover:opacity-60 hover:!opacity-100"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeConversation(conversation.id);
+                  }}
+                  title="Delete conversation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+
+      {/* Main Chatbox */}
+      <div className="flex-1 flex flex-col h-full min-w-0">
         {/* Header */}
         <div className="border-b bg-card p-4">
           <h1 className="text-2xl font-bold">Web Whisper Chat</h1>
@@ -114,8 +391,32 @@ export default function ChatBox() {
                       : 'bg-muted text-foreground'
                   }`}
                 >
-                  <p className="whitespace-pre-wrap break-words">{message.content}</p>
-                  {message.sources && message.sources.length > 0 && (
+                  {message.citations && message.citations.length > 0 ? (
+                    <>
+                      <CitedAnswer content={message.content} citations={message.citations} />
+                      <div className="mt-2 pt-2 border-t border-border/50">
+                        <p className="text-xs opacity-75 mb-1">Cited sources:</p>
+                        <div className="space-y-1">
+                          {message.citations.map((citation) => (
+                            <a
+                              key={citation.number}
+                              href={citation.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs underline opacity-90 hover:opacity-100 block truncate"
+                            >
+                              [{citation.number}] {citation.title || citation.url}
+                              {citation.section && <span className="opacity-75"> › {citation.section}</span>}
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                  )}
+                  {/* Answers without citation markers fall back to the top retrieved sources */}
+                  {!message.citations?.length && message.sources && message.sources.length > 0 && (
                     <div className="mt-2 pt-2 border-t border-border/50">
                       <p className="text-xs opacity-75 mb-1">Sources:</p>
                       <div className="space-y-1">
@@ -128,16 +429,20 @@ export default function ChatBox() {
                             className="text-xs underline opacity-90 hover:opacity-100 block truncate"
                           >
                             {source.title || source.url}
+                            {source.section && <span className="opacity-75"> › {source.section}</span>}
                           </a>
                         ))}
                       </div>
                     </div>
                   )}
+                  {message.sources && message.sources.length > 0 && (
+                    <SourceKeyPoints sources={message.sources} />
+                  )}
                 </div>
               </div>
             ))
           )}
-          {isLoading && (
+          {isWaiting && (
             <div className="flex justify-start">
               <div className="bg-muted rounded-lg p-3 flex items-center gap-2">
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -165,13 +470,15 @@ export default function ChatBox() {
                 }
               }}
             />
-            <Button type="submit" disabled={isLoading || !input.trim()}>
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button type="button" variant="outline" onClick={handleStop} title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!input.trim()}>
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
         </div>
       </div>
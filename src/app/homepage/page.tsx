@@ -3,14 +3,70 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Particles } from "@/components/ui/particles";
 import { cn } from "@/lib/utils";
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { Globe, Mic, Bot, ArrowRight, Zap, MessageSquare } from "lucide-react";
 import Link from "next/link";
 
+// Human-readable labels for crawl job phases
+const PHASE_LABELS: Record<string, string> = {
+    queued: "Queued...",
+    fetching: "Fetching pages",
+    summarizing: "Summarizing website content",
+    embedding: "Generating embeddings",
+    storing: "Storing content",
+};
+
+const POLL_INTERVAL_MS = 1000;
+
 export default function HomePage() {
     const [url, setUrl] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [crawlingStatus, setCrawlingStatus] = useState("");
+    const [progress, setProgress] = useState<number | null>(null);
+    const jobIdRef = useRef<string | null>(null);
+
+    const resetCrawl = () => {
+        jobIdRef.current = null;
+        setIsLoading(false);
+        setCrawlingStatus("");
+        setProgress(null);
+    };
+
+    // Poll the crawl job until it finishes, reflecting its progress in the loading overlay
+    const pollCrawlJob = async (jobId: string) => {
+        while (jobIdRef.current === jobId) {
+            const response = await fetch(`/api/crawl/${jobId}`);
+            if (!response.ok) {
+                throw new Error('Failed to get crawl status');
+            }
+
+            const job = await response.json();
+            console.log('Crawl job status:', job);
+
+            if (job.phase === 'completed') {
+                setProgress(100);
+                setCrawlingStatus(`Analysis complete! Stored ${job.chunksStored || 0} new content chunks (${job.chunksUnchanged || 0} unchanged) from ${job.pages?.length || 0} pages. Redirecting...`);
+                window.location.href = job.knowledgeBaseId && job.knowledgeBaseId !== 'default'
+                    ? `/chatbox?kb=${encodeURIComponent(job.knowledgeBaseId)}`
+                    : `/chatbox`;
+                return;
+            }
+            if (job.phase === 'cancelled') {
+                resetCrawl();
+                return;
+            }
+            if (job.phase === 'failed') {
+                const lastError = job.errors?.[job.errors.length - 1]?.error;
+                throw new Error(lastError || 'Crawl failed');
+            }
+
+            const label = PHASE_LABELS[job.phase] || job.phase;
+            setCrawlingStatus(job.pagesTotal > 0 ? `${label} (${job.pagesDone}/${job.pagesTotal} pages)...` : `${label}...`);
+            setProgress(job.pagesTotal > 0 ? Math.round((job.pagesDone / job.pagesTotal) * 100) : null);
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+    };
 
     const startVoiceChat = async () => {
         if (!url.trim()) {
@@ -26,7 +82,7 @@ export default function HomePage() {
             new URL(url);
 
             // Start crawling process
-            setCrawlingStatus("Crawling website content...");
+            setCrawlingStatus("Starting crawl...");
 
             // Use Next.js API route to avoid CORS issues
             const response = await fetch('/api/crawl', {
@@ -34,38 +90,43 @@ export default function HomePage() {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ url }),
+                body: JSON.stringify({
+                    url,
+                    // Crawl into the knowledge base chosen with ?kb= (the default one otherwise)
+                    knowledgeBaseId: new URLSearchParams(window.location.search).get('kb') || undefined,
+                }),
             });
 
-            console.log('response', response)
-
-            if (response.ok) {
-                const data = await response.json();
-                console.log('Crawl API response:', data);
-                
-                // Check if the crawl was successful
-                if (data.success && data.stored) {
-                    setCrawlingStatus(`Analysis complete! Stored ${data.chunksStored || 0} content chunks. Redirecting...`);
-                } else {
-                    setCrawlingStatus("Analysis complete! Redirecting...");
-                }
-
-                // Redirect to chatbox with crawled data
-                setTimeout(() => {
-                    window.location.href = `/chatbox`;
-                }, 1500);
-            } else {
-                throw new Error('Failed to crawl website');
+            if (!response.ok) {
+                throw new Error('Failed to start crawl');
             }
 
+            const data = await response.json();
+            console.log('Crawl job started:', data);
+
+            jobIdRef.current = data.jobId;
+            await pollCrawlJob(data.jobId);
+
         } catch (error) {
             console.error('Error:', error);
-            alert("Failed to analyze website. Please check the URL and try again.");
-            setIsLoading(false);
-            setCrawlingStatus("");
+            alert(`Failed to analyze website: ${error instanceof Error ? error.message : 'Unknown error'}. Please check the URL and try again.`);
+            resetCrawl();
         }
     };
 
+    const cancelCrawl = async () => {
+        const jobId = jobIdRef.current;
+        if (!jobId) return;
+
+        setCrawlingStatus("Cancelling...");
+        try {
+            await fetch(`/api/crawl/${jobId}`, { method: 'DELETE' });
+        } catch (error) {
+            console.error('Error cancelling crawl:', error);
+        }
+        resetCrawl();
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
             startVoiceChat();
@@ -118,7 +179,13 @@ export default function HomePage() {
                                     {/* Progress Indicator */}
                                     <div className="w-64 mx-auto">
                                         <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
-                                            <div className="h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full animate-pulse"></div>
+                                            <div
+                                                className={cn(
+                                                    "h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full transition-all duration-500",
+                                                    progress === null && "animate-pulse"
+                                                )}
+                                                style={{ width: `${progress ?? 100}%` }}
+                                            ></div>
                                         </div>
                                     </div>
 
@@ -126,6 +193,13 @@ export default function HomePage() {
                                         we are crawling and analyzing the website content.
                                         This may take a few moments depending on the site size.
                                     </p>
+
+                                    <Button
+                                        onClick={cancelCrawl}
+                                        className="bg-gray-200 hover:bg-gray-300 text-gray-800"
+                                    >
+                                        Cancel
+                                    </Button>
                                 </div>
                             </div>
                         </div>
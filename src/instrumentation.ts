@@ -0,0 +1,22 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Make sure existing collections match the configured embedding provider before serving queries
+  const { validateKnowledgeBaseEmbeddings } = await import('@/lib/knowledge-bases');
+  try {
+    const problems = await validateKnowledgeBaseEmbeddings();
+    for (const problem of problems) {
+      console.error(`Knowledge base ${problem.knowledgeBaseId} failed embedding validation: ${problem.error}`);
+    }
+  } catch (error) {
+    console.warn('Could not validate knowledge base embeddings at startup:', error);
+  }
+
+  if (process.env.DISABLE_SCHEDULER !== 'true') {
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+  }
+}
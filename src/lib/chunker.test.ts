@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument, formatHeadingPath } from '@/lib/chunker';
+
+const paragraph = (sentence: string, count: number) => Array(count).fill(sentence).join(' ');
+
+describe('chunkDocument', () => {
+  it('starts a chunk at each heading and records the heading path', async () => {
+    const markdown = [
+      '# Product',
+      'Our product does many useful things for teams of every size.',
+      '## Pricing',
+      'Plans start at ten dollars a month, billed yearly.',
+      '## Support',
+      'Email us any time and we answer within a day.',
+    ].join('\n\n');
+
+    const chunks = await chunkDocument(markdown, { chunkSize: 1000, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Product'],
+      ['Product', 'Pricing'],
+      ['Product', 'Support'],
+    ]);
+    expect(chunks[1].content).toBe('## Pricing\n\nPlans start at ten dollars a month, billed yearly.');
+  });
+
+  it('packs paragraphs up to the chunk size and carries overlap across a split', async () => {
+    const first = paragraph('The first paragraph talks about setup.', 8);
+    const second = paragraph('The second paragraph covers billing.', 8);
+    const chunks = await chunkDocument(`${first}\n\n${second}`, { chunkSize: 400, chunkOverlap: 100 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every(chunk => chunk.content.length <= 400 + 100)).toBe(true);
+    // The second chunk opens with the last sentences of the first paragraph
+    expect(chunks[1].content.startsWith('The first paragraph talks about setup.')).toBe(true);
+    expect(chunks[1].content).toContain('The second paragraph covers billing.');
+  });
+
+  it('keeps tables and code blocks whole', async () => {
+    const table = ['| Plan | Price |', '| --- | --- |', ...Array.from({ length: 40 }, (_, i) => `| Plan ${i} | $${i} |`)].join('\n');
+    const code = ['```', ...Array.from({ length: 40 }, (_, i) => `console.log(${i});`), '```'].join('\n');
+    const chunks = await chunkDocument(`# Plans\n\n${table}\n\n${code}`, { chunkSize: 200, chunkOverlap: 50 });
+
+    expect(chunks.some(chunk => chunk.content.includes(table))).toBe(true);
+    expect(chunks.some(chunk => chunk.content.includes(code))).toBe(true);
+  });
+
+  it('keeps every chunk within the byte limit of the content field', async () => {
+    const text = '日本語のテキストです。'.repeat(1000);
+    const chunks = await chunkDocument(`# 見出し\n\n${text}`, { chunkSize: 8000, chunkOverlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(Buffer.byteLength(chunk.content, 'utf-8')).toBeLessThanOrEqual(9000);
+      expect(chunk.content).not.toContain('�');
+      expect(chunk.headingPath).toEqual(['見出し']);
+    }
+    expect(chunks.map(chunk => chunk.content).join('').replace(/\s|#|見出し/g, '')).toBe(text);
+  });
+
+  it('drops chunks without useful content', async () => {
+    expect(await chunkDocument('# Title\n\n## Empty section')).toEqual([]);
+    expect(await chunkDocument('short')).toEqual([]);
+  });
+});
+
+describe('formatHeadingPath', () => {
+  it('joins headings and returns null when there are none', () => {
+    expect(formatHeadingPath(['Product', 'Pricing'])).toBe('Product > Pricing');
+    expect(formatHeadingPath([])).toBeNull();
+    expect(formatHeadingPath(undefined)).toBeNull();
+  });
+});
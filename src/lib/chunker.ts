@@ -0,0 +1,234 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+
+export interface ChunkingOptions {
+  chunkSize: number; // Target chunk length in characters
+  chunkOverlap: number; // Text repeated from the end of the previous chunk in the same section
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: Number(process.env.CHUNK_SIZE || 1000),
+  chunkOverlap: Number(process.env.CHUNK_OVERLAP || 200),
+};
+
+export interface DocumentChunk {
+  content: string;
+  headingPath: string[]; // Enclosing headings, outermost first, e.g. ["Product", "Pricing"]
+}
+
+// Render a stored heading path as "Product > Pricing"; null when there is none
+export function formatHeadingPath(headingPath: unknown): string | null {
+  return Array.isArray(headingPath) && headingPath.length > 0 ? headingPath.join(' > ') : null;
+}
+
+// No chunk is longer than this many UTF-8 bytes: the Milvus content field holds 10000 and counts
+// bytes, not characters. Tables and code blocks are kept whole up to this size.
+const MAX_CHUNK_BYTES = 9000;
+
+// Chunks shorter than this carry no useful content
+const MIN_CHUNK_LENGTH = 10;
+
+interface Block {
+  type: 'heading' | 'code' | 'table' | 'text';
+  text: string;
+  level?: number; // Heading level, 1-6
+}
+
+// Split Markdown into headings, fenced code blocks, tables and paragraphs (lists stay together
+// with their paragraph since they are not separated by blank lines)
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) blocks.push({ type: 'text', text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      flushParagraph();
+      const fence = line.trim().substring(0, 3);
+      const code = [line];
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(fence)) break;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*\S)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[2].replace(/\s+#+$/, ''), level: heading[1].length });
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('|')) {
+        rows.push(lines[++i]);
+      }
+      blocks.push({ type: 'table', text: rows.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf-8');
+}
+
+// Cut text into pieces of at most maxBytes UTF-8 bytes, at a line break or space where possible
+// and never inside a character
+function splitByBytes(text: string, maxBytes: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (byteLength(rest) > maxBytes) {
+    let end = 0;
+    let bytes = 0;
+    for (const char of rest) {
+      bytes += byteLength(char);
+      if (bytes > maxBytes) break;
+      end += char.length;
+    }
+    const boundary = Math.max(rest.lastIndexOf('\n', end), rest.lastIndexOf(' ', end));
+    const cut = boundary > end / 2 ? boundary : end;
+    pieces.push(rest.substring(0, cut).trimEnd());
+    rest = rest.substring(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Break a table or code block that is too long even for its own chunk into line groups,
+// repeating the table header or code fence in each part
+function splitByLines(block: Block, chunkSize: number): string[] {
+  const lines = block.text.split('\n');
+  const header = block.type === 'table' ? lines.slice(0, 2) : [];
+  const fence = block.type === 'code' ? lines[0] : null;
+  const body = block.type === 'table' ? lines.slice(2) : fence ? lines.slice(1, -1) : lines;
+
+  const parts: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    parts.push(fence ? [fence, ...current, '```'].join('\n') : [...header, ...current].join('\n'));
+    current = [];
+  };
+  for (const line of body) {
+    if (current.length > 0 && [...header, ...current, line].join('\n').length > chunkSize) {
+      flush();
+    }
+    current.push(line);
+  }
+  flush();
+  return parts;
+}
+
+// The end of a chunk's last paragraph, cut at a sentence boundary, to repeat at the start of
+// the next chunk
+function overlapTail(text: string, chunkOverlap: number): string {
+  if (chunkOverlap <= 0) {
+    return '';
+  }
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let tail = '';
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${sentences[i]} ${tail}` : sentences[i];
+    if (candidate.length > chunkOverlap) break;
+    tail = candidate;
+  }
+  return tail;
+}
+
+// Split a Markdown document into chunks that follow its structure: a heading starts a new chunk,
+// each chunk records its heading path, paragraphs are packed up to chunkSize, and tables and
+// code blocks are never split unless they are larger than MAX_CHUNK_BYTES. Any chunk still over
+// MAX_CHUNK_BYTES (non-ASCII text near a large chunkSize, very long lines) is cut to fit.
+export async function chunkDocument(
+  markdown: string,
+  options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS
+): Promise<DocumentChunk[]> {
+  try {
+    const { chunkSize, chunkOverlap } = options;
+    // Long paragraphs are split without overlap, leaving room for the overlap append() carries
+    // over at sentence boundaries
+    const textSplitter = new RecursiveCharacterTextSplitter({
+      chunkSize: Math.max(chunkSize - chunkOverlap, 100),
+      chunkOverlap: 0,
+      separators: ['\n\n', '\n', '. ', '! ', '? ', ' ', ''],
+    });
+
+    const chunks: DocumentChunk[] = [];
+    const headings: Array<{ level: number; text: string }> = [];
+    let current: string[] = [];
+    let hasBody = false;
+    let endsWithText = false; // Overlap is only carried over from paragraphs, never from tables or code
+
+    const flush = () => {
+      if (hasBody) {
+        chunks.push({ content: current.join('\n\n'), headingPath: headings.map(heading => heading.text) });
+      }
+      current = [];
+      hasBody = false;
+    };
+
+    const append = (text: string, isText: boolean) => {
+      if (hasBody && current.join('\n\n').length + text.length + 2 > chunkSize) {
+        const tail = endsWithText && isText ? overlapTail(current[current.length - 1], chunkOverlap) : '';
+        flush();
+        if (tail) current.push(tail);
+      }
+      current.push(text);
+      hasBody = true;
+      endsWithText = isText;
+    };
+
+    for (const block of parseBlocks(markdown)) {
+      if (block.type === 'heading') {
+        flush();
+        while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+          headings.pop();
+        }
+        headings.push({ level: block.level!, text: block.text });
+        current.push(`${'#'.repeat(block.level!)} ${block.text}`);
+        continue;
+      }
+
+      if (block.type === 'text') {
+        const pieces = block.text.length > chunkSize ? await textSplitter.splitText(block.text) : [block.text];
+        pieces.forEach(piece => append(piece, true));
+        continue;
+      }
+
+      // Tables and code blocks: whole when possible, otherwise split by lines
+      const pieces = byteLength(block.text) > MAX_CHUNK_BYTES ? splitByLines(block, chunkSize) : [block.text];
+      pieces.forEach(piece => append(piece, false));
+    }
+    flush();
+
+    return chunks
+      .flatMap(chunk => byteLength(chunk.content) > MAX_CHUNK_BYTES
+        ? splitByBytes(chunk.content, MAX_CHUNK_BYTES).map(content => ({ ...chunk, content }))
+        : [chunk])
+      .filter(chunk => chunk.content.trim().length > MIN_CHUNK_LENGTH);
+  } catch (error) {
+    console.error('Error chunking document:', error);
+    throw error;
+  }
+}
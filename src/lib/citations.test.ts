@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildCitations, extractCitationNumbers } from '@/lib/citations';
+import type { SearchResult } from '@/lib/vector-store';
+
+const chunk = (id: string, content: string, headingPath?: string[]): SearchResult => ({
+  content,
+  metadata: {
+    id,
+    url: `https://example.com/${id}`,
+    title: `Page ${id}`,
+    crawled_at: 0,
+    summary: null,
+    page_url: `https://example.com/${id}`,
+    chunk_index: 0,
+    total_chunks: 1,
+    content_type: 'text/html',
+    attributes: headingPath ? { headingPath } : {},
+  },
+  url: `https://example.com/${id}`,
+  title: `Page ${id}`,
+  similarity: 0.9,
+});
+
+const chunks = [
+  chunk('shipping', 'We ship to every country. Delivery takes five days. Express delivery takes one day.', ['Help', 'Shipping']),
+  chunk('returns', 'Items can be returned within thirty days. Refunds are paid to the original card.'),
+];
+
+describe('extractCitationNumbers', () => {
+  it('finds single, grouped and adjacent markers once each', () => {
+    expect(Array.from(extractCitationNumbers('Yes [2]. Also [1, 3] and [1][2].'))).toEqual([2, 1, 3]);
+  });
+
+  it('ignores brackets that are not citation markers', () => {
+    expect(extractCitationNumbers('See [the docs] or array[i]; no sources here.').size).toBe(0);
+  });
+});
+
+describe('buildCitations', () => {
+  it('maps markers to the numbered chunks with their section and the supporting sentence', () => {
+    expect(buildCitations('Refunds go back to your card [2]. Express delivery takes a day [1].', chunks)).toEqual([
+      {
+        number: 1,
+        chunkId: 'shipping',
+        url: 'https://example.com/shipping',
+        title: 'Page shipping',
+        section: 'Help > Shipping',
+        snippet: 'Express delivery takes one day.',
+      },
+      {
+        number: 2,
+        chunkId: 'returns',
+        url: 'https://example.com/returns',
+        title: 'Page returns',
+        section: null,
+        snippet: 'Refunds are paid to the original card.',
+      },
+    ]);
+  });
+
+  it('cites a chunk once however often it is marked', () => {
+    const citations = buildCitations('Delivery takes five days [1]. We ship everywhere [1]. See [1, 1].', chunks);
+    expect(citations.map(citation => citation.number)).toEqual([1]);
+  });
+
+  it('drops markers outside the numbered chunks', () => {
+    expect(buildCitations('Made up [0]. Also made up [3]. True [2].', chunks).map(citation => citation.number)).toEqual([2]);
+  });
+
+  it('returns no citations for an answer without markers', () => {
+    expect(buildCitations('I could not find that in the knowledge base.', chunks)).toEqual([]);
+  });
+});
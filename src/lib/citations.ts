@@ -0,0 +1,90 @@
+import { formatHeadingPath } from '@/lib/chunker';
+import type { SearchResult } from '@/lib/vector-store';
+
+export interface Citation {
+  number: number;
+  chunkId: string;
+  url: string;
+  title: string;
+  section: string | null; // Heading path of the cited chunk
+  snippet: string;
+}
+
+const MAX_SNIPPET_LENGTH = 300;
+
+// Find every [n] marker in an answer, including grouped forms like [1, 3] or [1][2]
+export function extractCitationNumbers(text: string): Set<number> {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const part of match[1].split(',')) {
+      numbers.add(Number(part.trim()));
+    }
+  }
+  return numbers;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Pick the sentence of a chunk that best supports the answer sentences citing it, so reviewers
+// see the exact passage the claim rests on
+function selectSnippet(chunkContent: string, citingText: string): string {
+  const sentences = splitSentences(chunkContent);
+  if (sentences.length === 0) {
+    return '';
+  }
+
+  const claimTokens = tokenize(citingText);
+  let bestIndex = 0;
+  let bestScore = -1;
+  sentences.forEach((sentence, index) => {
+    let score = 0;
+    for (const token of tokenize(sentence)) {
+      if (claimTokens.has(token)) score++;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  // Extend with following sentences while there is room
+  let snippet = sentences[bestIndex];
+  for (let i = bestIndex + 1; i < sentences.length && snippet.length + sentences[i].length < MAX_SNIPPET_LENGTH; i++) {
+    snippet += ` ${sentences[i]}`;
+  }
+  return snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.substring(0, MAX_SNIPPET_LENGTH - 1)}…` : snippet;
+}
+
+// Map the [n] markers used in an answer to the chunks that were numbered n in the prompt (1-based)
+export function buildCitations(answer: string, chunks: SearchResult[]): Citation[] {
+  const answerSentences = splitSentences(answer);
+
+  return Array.from(extractCitationNumbers(answer))
+    .filter(number => number >= 1 && number <= chunks.length)
+    .sort((a, b) => a - b)
+    .map(number => {
+      const chunk = chunks[number - 1];
+      const citingText = answerSentences
+        .filter(sentence => extractCitationNumbers(sentence).has(number))
+        .join(' ');
+
+      return {
+        number,
+        chunkId: String(chunk.metadata.id),
+        url: chunk.url,
+        title: chunk.title,
+        section: formatHeadingPath(chunk.metadata.attributes?.headingPath),
+        snippet: selectSnippet(chunk.content, citingText || answer),
+      };
+    });
+}
@@ -0,0 +1,209 @@
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+// Main-content extraction and cross-page boilerplate removal run by default; crawls can turn
+// them off with `contentExtraction: false`
+export const DEFAULT_CONTENT_EXTRACTION = process.env.CONTENT_EXTRACTION !== 'false';
+
+// Elements that hold site chrome rather than page content
+const BOILERPLATE_SELECTORS = [
+  'nav', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alertdialog"]', '[aria-modal="true"]',
+].join(', ');
+
+// Class or ID names of menus, cookie banners, share buttons and the like...
+const BOILERPLATE_NAMES = /(^|[-_\s])(cookie|consent|gdpr|banner|navbar|nav|menu|breadcrumbs?|footer|sidebar|share|social|newsletter|subscribe|popup|modal|overlay|advert|ads|promo|related)([-_\s]|$)/i;
+
+// ...unless the name also says it's content
+const CONTENT_NAMES = /(article|content|main|post|entry|story|body)/i;
+
+// An element holding more than this share of the page text is never removed as boilerplate
+const MAX_BOILERPLATE_SHARE = 0.5;
+
+// Containers considered when looking for the main content
+const CANDIDATE_TAGS = new Set(['div', 'section', 'article', 'main']);
+
+// A block is boilerplate when it appears on at least this share of the crawled pages...
+const REPEATED_BLOCK_SHARE = 0.6;
+
+// ...and on at least this many pages
+const REPEATED_BLOCK_MIN_PAGES = 3;
+
+// Removed elements and blocks listed per page in the report
+const MAX_REPORTED_REMOVALS = 25;
+
+export interface PageExtractionReport {
+  mainContent: string | null; // The element kept as main content, e.g. "article" or "div#content"; null for the whole body
+  removedElements: string[]; // Site chrome removed from the page, with a preview of its text
+  removedBlocks: string[]; // Blocks removed because they repeat across pages of the site
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function preview(text: string): string {
+  const collapsed = collapseWhitespace(text);
+  return collapsed.length > 80 ? `${collapsed.substring(0, 77)}...` : collapsed;
+}
+
+// Short description of an element for the report: tag, ID and first class
+function describeElement($: CheerioAPI, element: Element): string {
+  const id = $(element).attr('id');
+  const className = ($(element).attr('class') || '').split(/\s+/).filter(Boolean)[0];
+  return `${element.name.toLowerCase()}${id ? `#${id}` : ''}${className ? `.${className}` : ''}`;
+}
+
+function isBoilerplateElement($: CheerioAPI, element: Element, pageTextLength: number): boolean {
+  const tag = element.name.toLowerCase();
+  if (tag === 'body' || tag === 'html' || tag === 'main' || tag === 'article') {
+    return false;
+  }
+  if ($(element).text().length > pageTextLength * MAX_BOILERPLATE_SHARE) {
+    return false;
+  }
+
+  // Headers and footers inside an article belong to it (title, byline, notes)
+  if ((tag === 'header' || tag === 'footer') && $(element).closest('article, main, [role="main"]').length === 0) {
+    return true;
+  }
+  if ($(element).is(BOILERPLATE_SELECTORS)) {
+    return true;
+  }
+
+  const names = `${$(element).attr('id') || ''} ${$(element).attr('class') || ''}`;
+  return BOILERPLATE_NAMES.test(names) && !CONTENT_NAMES.test(names);
+}
+
+// Share of an element's text that sits inside links; menus and link lists score close to 1
+function linkDensity($: CheerioAPI, element: Element): number {
+  const textLength = collapseWhitespace($(element).text()).length;
+  if (textLength === 0) {
+    return 1;
+  }
+  const linkLength = $(element).find('a').toArray()
+    .reduce((sum, link) => sum + collapseWhitespace($(link).text()).length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
+
+// Readability-style scoring: each paragraph credits its container (and half of that to the
+// container's parent) by its length and commas; containers are then penalised by link density
+function findMainContainer($: CheerioAPI): Element | null {
+  const explicit = $('main, [role="main"]').toArray().concat($('article').length === 1 ? $('article').toArray() : []);
+  const bodyTextLength = collapseWhitespace($('body').text()).length;
+  const landmark = explicit.find(element => collapseWhitespace($(element).text()).length >= bodyTextLength * 0.3);
+  if (landmark) {
+    return landmark;
+  }
+
+  const scores = new Map<Element, number>();
+  const credit = (node: AnyNode | null | undefined, score: number) => {
+    if (node && node.type === 'tag' && CANDIDATE_TAGS.has(node.name.toLowerCase())) {
+      scores.set(node, (scores.get(node) || 0) + score);
+    }
+  };
+
+  $('p, pre, td, blockquote').each((_, paragraph) => {
+    const text = collapseWhitespace($(paragraph).text());
+    if (text.length < 25) {
+      return;
+    }
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    credit(paragraph.parent, score);
+    credit(paragraph.parent?.parent, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  // A winner with only a sliver of the page text is more likely a teaser than the article
+  if (!best || collapseWhitespace($(best).text()).length < bodyTextLength * 0.3) {
+    return null;
+  }
+  return best;
+}
+
+// Strip site chrome (navigation, headers, footers, cookie banners, sidebars) from a parsed page
+// and find the element holding its main content. Returns the content root to render (null for
+// the whole body) and what was removed.
+export function extractMainContent($: CheerioAPI): { root: Element | null; report: PageExtractionReport } {
+  const pageTextLength = collapseWhitespace($('body').text()).length;
+  const removedElements: string[] = [];
+
+  $('body *').each((_, element) => {
+    // Skip elements whose ancestor was already removed
+    if ($(element).closest('html').length === 0 || !isBoilerplateElement($, element, pageTextLength)) {
+      return;
+    }
+    const text = preview($(element).text());
+    if (removedElements.length < MAX_REPORTED_REMOVALS) {
+      removedElements.push(text ? `${describeElement($, element)}: ${text}` : describeElement($, element));
+    }
+    $(element).remove();
+  });
+
+  const root = findMainContainer($);
+  return {
+    root,
+    report: { mainContent: root ? describeElement($, root) : null, removedElements, removedBlocks: [] },
+  };
+}
+
+// Normalised form of a Markdown block for counting repeats
+function blockKey(block: string): string {
+  return collapseWhitespace(block).toLowerCase();
+}
+
+// Remove paragraphs, lists and tables that repeat across many pages of the same crawl (footers,
+// menus and banners the element rules missed). Headings are kept since they carry structure.
+// Returns the cleaned contents in the same order, the blocks removed from each page, and the
+// repeated blocks with the number of pages they appeared on.
+export function removeRepeatedBlocks(contents: string[]): {
+  contents: string[];
+  removedBlocks: string[][];
+  repeatedBlocks: Array<{ text: string; pageCount: number }>;
+} {
+  const pageBlocks = contents.map(content => content.split(/\n{2,}/));
+  const minPages = Math.max(REPEATED_BLOCK_MIN_PAGES, Math.ceil(contents.length * REPEATED_BLOCK_SHARE));
+  if (contents.length < minPages) {
+    return { contents, removedBlocks: contents.map(() => []), repeatedBlocks: [] };
+  }
+
+  const pageCounts = new Map<string, number>();
+  const firstSeen = new Map<string, string>();
+  for (const blocks of pageBlocks) {
+    const keys = new Set<string>();
+    for (const block of blocks.filter(block => !block.startsWith('#'))) {
+      const key = blockKey(block);
+      if (!key || keys.has(key)) continue;
+      keys.add(key);
+      pageCounts.set(key, (pageCounts.get(key) || 0) + 1);
+      if (!firstSeen.has(key)) firstSeen.set(key, block);
+    }
+  }
+
+  const repeated = new Set(Array.from(pageCounts).filter(([, count]) => count >= minPages).map(([key]) => key));
+  const removedBlocks = pageBlocks.map(blocks => blocks
+    .filter(block => repeated.has(blockKey(block)))
+    .slice(0, MAX_REPORTED_REMOVALS)
+    .map(preview));
+  const cleaned = pageBlocks.map(blocks => blocks.filter(block => !repeated.has(blockKey(block))).join('\n\n'));
+
+  if (repeated.size > 0) {
+    console.log(`Removed ${repeated.size} blocks repeated on ${minPages}+ of ${contents.length} pages`);
+  }
+
+  return {
+    contents: cleaned,
+    removedBlocks,
+    repeatedBlocks: Array.from(repeated).map(key => ({ text: preview(firstSeen.get(key)!), pageCount: pageCounts.get(key)! })),
+  };
+}
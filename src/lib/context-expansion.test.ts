@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { expandContext, ExpansionOptions, parseExpansionOptions } from '@/lib/context-expansion';
+import type { IndexedChunk, SearchResult } from '@/lib/vector-store';
+
+const PAGE_URL = 'https://example.com/guide';
+
+// Six chunks of one page: two under "Setup", four under "Billing"
+const pageChunks: IndexedChunk[] = [
+  ['Setup', 'Install the app from the store.'],
+  ['Setup', 'Sign in with your work account.'],
+  ['Billing', 'Invoices are sent every month.'],
+  ['Billing', 'Pay by card or bank transfer.'],
+  ['Billing', 'Change plans at any time.'],
+  ['Billing', 'Refunds take five working days.'],
+].map(([heading, content], index) => ({
+  id: `chunk-${index}`,
+  url: PAGE_URL,
+  page_url: PAGE_URL,
+  title: 'Guide',
+  content,
+  crawled_at: 0,
+  summary: null,
+  content_hash: null,
+  chunk_index: index,
+  total_chunks: 6,
+  content_type: 'text/html',
+  attributes: { headingPath: ['Guide', heading] },
+}));
+
+vi.mock('@/lib/vector-store', () => ({
+  getVectorStore: () => ({
+    getPageChunks: async (_collectionName: string, pageUrl: string, range: { from: number; to: number }) =>
+      pageChunks.filter(chunk => chunk.page_url === pageUrl && chunk.chunk_index! >= range.from && chunk.chunk_index! <= range.to),
+  }),
+}));
+
+const result = (index: number | null): SearchResult => ({
+  content: index === null ? 'Legacy chunk' : pageChunks[index].content,
+  metadata: {
+    id: index === null ? 'legacy' : `chunk-${index}`,
+    url: PAGE_URL,
+    title: 'Guide',
+    crawled_at: 0,
+    summary: null,
+    page_url: PAGE_URL,
+    chunk_index: index,
+    total_chunks: index === null ? null : 6,
+    content_type: 'text/html',
+    attributes: {},
+  },
+  url: PAGE_URL,
+  title: 'Guide',
+  similarity: 0.9,
+});
+
+const expand = (results: SearchResult[], options: Partial<ExpansionOptions>) =>
+  expandContext('kb', results, { mode: 'neighbors', window: 1, maxChars: 4000, ...options });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('parseExpansionOptions', () => {
+  it('accepts booleans, mode names, neighbour counts and objects', () => {
+    expect(parseExpansionOptions(undefined)).toEqual({ mode: 'none', window: 1, maxChars: 4000 });
+    expect(parseExpansionOptions(true)).toMatchObject({ mode: 'neighbors' });
+    expect(parseExpansionOptions('section')).toMatchObject({ mode: 'section' });
+    expect(parseExpansionOptions('2')).toEqual({ mode: 'neighbors', window: 2, maxChars: 4000 });
+    expect(parseExpansionOptions(0)).toMatchObject({ mode: 'none' });
+    expect(parseExpansionOptions({ mode: 'neighbors', maxChars: '1000' })).toEqual({ mode: 'neighbors', window: 1, maxChars: 1000 });
+  });
+
+  it('rejects unknown modes and counts that are not non-negative integers', () => {
+    expect(() => parseExpansionOptions('paragraph')).toThrow('Unknown context expansion mode "paragraph"');
+    expect(() => parseExpansionOptions(-1)).toThrow('expand must be a non-negative integer');
+    expect(() => parseExpansionOptions({ window: 'abc' })).toThrow('expand window must be a non-negative integer');
+    expect(() => parseExpansionOptions({ maxChars: -5 })).toThrow('expand maxChars must be a non-negative integer');
+  });
+
+  it('rejects a misconfigured environment', () => {
+    vi.stubEnv('CONTEXT_EXPANSION_MODE', 'neighbours');
+    expect(() => parseExpansionOptions(undefined)).toThrow('Unknown CONTEXT_EXPANSION_MODE "neighbours"');
+  });
+});
+
+describe('expandContext', () => {
+  it('adds the neighbouring chunks on each side in page order', async () => {
+    const [expanded] = await expand([result(3)], { window: 1 });
+    expect(expanded.content).toBe([pageChunks[2], pageChunks[3], pageChunks[4]].map(chunk => chunk.content).join('\n'));
+  });
+
+  it('stays within the matched chunk\'s section in section mode', async () => {
+    const [expanded] = await expand([result(1)], { mode: 'section' });
+    expect(expanded.content).toBe(`${pageChunks[0].content}\n${pageChunks[1].content}`);
+  });
+
+  it('merges results whose ranges touch into the better-ranked one', async () => {
+    const merged = await expand([result(4), result(2), result(0)], { window: 1 });
+    expect(merged).toHaveLength(1);
+    expect(merged[0].metadata.id).toBe('chunk-4');
+    expect(merged[0].content).toBe(pageChunks.map(chunk => chunk.content).join('\n'));
+
+    const separate = await expand([result(5), result(0)], { window: 1 });
+    expect(separate.map(expanded => expanded.metadata.id)).toEqual(['chunk-5', 'chunk-0']);
+  });
+
+  it('grows the range only while it fits maxChars', async () => {
+    const maxChars = pageChunks[3].content.length + pageChunks[2].content.length;
+    const [expanded] = await expand([result(3)], { window: 2, maxChars });
+    expect(expanded.content).toBe(`${pageChunks[2].content}\n${pageChunks[3].content}`);
+  });
+
+  it('leaves chunks without a stored position and disabled expansion alone', async () => {
+    expect(await expand([result(null)], { window: 1 })).toEqual([result(null)]);
+    expect(await expand([result(3)], { mode: 'none' })).toEqual([result(3)]);
+    expect(await expand([result(3)], { window: 0 })).toEqual([result(3)]);
+  });
+});
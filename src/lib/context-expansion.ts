@@ -0,0 +1,182 @@
+import { formatHeadingPath } from '@/lib/chunker';
+import { getVectorStore } from '@/lib/vector-store';
+import type { IndexedChunk, SearchResult } from '@/lib/vector-store';
+
+export type ExpansionMode = 'none' | 'neighbors' | 'section';
+
+export interface ExpansionOptions {
+  mode: ExpansionMode;
+  window: number; // Neighbouring chunks to add on each side in 'neighbors' mode
+  maxChars: number; // Upper bound on the merged text of one result
+}
+
+const EXPANSION_MODES: ExpansionMode[] = ['none', 'neighbors', 'section'];
+
+// 'section' mode never pulls in more than this many chunks on each side
+const SECTION_WINDOW = 5;
+
+// Chunks overlap by up to the splitter's overlap; look a little further when trimming it
+const MAX_OVERLAP = 300;
+
+function checkMode(value: unknown, name: string): ExpansionMode {
+  if (!EXPANSION_MODES.includes(value as ExpansionMode)) {
+    throw new Error(`Unknown ${name} "${value}" (expected none, neighbors or section)`);
+  }
+  return value as ExpansionMode;
+}
+
+// Counts may also be given as numeric strings (query parameters, environment variables)
+function checkCount(value: unknown, name: string): number {
+  const count = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '') ? Number(value) : NaN;
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return count;
+}
+
+// Defaults from CONTEXT_EXPANSION_MODE, CONTEXT_EXPANSION_WINDOW and CONTEXT_EXPANSION_MAX_CHARS
+function getDefaultExpansionOptions(): ExpansionOptions {
+  return {
+    mode: checkMode(process.env.CONTEXT_EXPANSION_MODE || 'none', 'CONTEXT_EXPANSION_MODE'),
+    window: checkCount(process.env.CONTEXT_EXPANSION_WINDOW || 1, 'CONTEXT_EXPANSION_WINDOW'),
+    maxChars: checkCount(process.env.CONTEXT_EXPANSION_MAX_CHARS || 4000, 'CONTEXT_EXPANSION_MAX_CHARS'),
+  };
+}
+
+// Parse per-request expansion settings: true/false, a mode name, a neighbour count, or
+// { mode, window, maxChars }. Anything missing falls back to the CONTEXT_EXPANSION_* defaults.
+// Throws with a message suitable for a 400 response.
+export function parseExpansionOptions(value: unknown): ExpansionOptions {
+  const defaults = getDefaultExpansionOptions();
+  if (value === undefined || value === null || value === '') {
+    return defaults;
+  }
+  if (value === true || value === 'true') {
+    return { ...defaults, mode: defaults.mode === 'none' ? 'neighbors' : defaults.mode };
+  }
+  if (value === false || value === 'false') {
+    return { ...defaults, mode: 'none' };
+  }
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const window = checkCount(value, 'expand');
+    return { ...defaults, mode: window > 0 ? 'neighbors' : 'none', window };
+  }
+
+  const input = (typeof value === 'string' ? { mode: value } : value) as Record<string, unknown>;
+  return {
+    mode: input.mode !== undefined ? checkMode(input.mode, 'context expansion mode') : defaults.mode,
+    window: input.window !== undefined ? checkCount(input.window, 'expand window') : defaults.window,
+    maxChars: input.maxChars !== undefined ? checkCount(input.maxChars, 'expand maxChars') : defaults.maxChars,
+  };
+}
+
+// Append next to text, dropping the start of next that repeats the end of text (splitter overlap)
+function joinOverlapping(text: string, next: string): string {
+  for (let length = Math.min(MAX_OVERLAP, text.length, next.length); length > 20; length--) {
+    if (text.endsWith(next.substring(0, length))) {
+      return text + next.substring(length);
+    }
+  }
+  return `${text}\n${next}`;
+}
+
+function windowFor(options: ExpansionOptions): number {
+  return options.mode === 'section' ? SECTION_WINDOW : options.window;
+}
+
+// Pick the contiguous run of page chunks around the match: up to `window` either side, growing
+// outward one step at a time while it fits maxChars. In 'section' mode it also stops at chunks
+// under a different heading path.
+function selectRun(match: IndexedChunk, pageChunks: IndexedChunk[], options: ExpansionOptions): IndexedChunk[] {
+  const byIndex = new Map(pageChunks.map(chunk => [chunk.chunk_index!, chunk]));
+  const matchIndex = match.chunk_index!;
+  const section = options.mode === 'section' ? formatHeadingPath(match.attributes.headingPath) : null;
+  const fits = (chunk: IndexedChunk | undefined) =>
+    !!chunk && (options.mode !== 'section' || formatHeadingPath(chunk.attributes.headingPath) === section);
+
+  let from = matchIndex;
+  let to = matchIndex;
+  let length = match.content.length;
+  let growBefore = true;
+  let growAfter = true;
+
+  for (let step = 1; step <= windowFor(options) && (growBefore || growAfter); step++) {
+    const before = byIndex.get(matchIndex - step);
+    if (growBefore && fits(before) && length + before!.content.length <= options.maxChars) {
+      from = matchIndex - step;
+      length += before!.content.length;
+    } else {
+      growBefore = false;
+    }
+
+    const after = byIndex.get(matchIndex + step);
+    if (growAfter && fits(after) && length + after!.content.length <= options.maxChars) {
+      to = matchIndex + step;
+      length += after!.content.length;
+    } else {
+      growAfter = false;
+    }
+  }
+
+  return pageChunks.filter(chunk => chunk.chunk_index! >= from && chunk.chunk_index! <= to);
+}
+
+// Replace each result's text with its chunk merged, in page order, with the neighbouring chunks
+// of the same page. Results whose expanded range overlaps a better-ranked result from the same
+// page are merged into it instead of repeating the text. Chunks stored before positions were
+// recorded are left as they are.
+export async function expandContext<T extends SearchResult>(
+  collectionName: string,
+  results: T[],
+  options: ExpansionOptions
+): Promise<T[]> {
+  if (windowFor(options) <= 0 || options.mode === 'none' || results.length === 0) {
+    return results;
+  }
+
+  try {
+    const store = getVectorStore();
+    const expanded: Array<{ result: T; pageUrl: string | null; chunks: IndexedChunk[] }> = [];
+
+    for (const result of results) {
+      const { page_url: pageUrl, chunk_index: chunkIndex } = result.metadata;
+      const window = windowFor(options);
+      const pageChunks = chunkIndex === null
+        ? []
+        : await store.getPageChunks(collectionName, pageUrl, { from: chunkIndex - window, to: chunkIndex + window });
+      const match = pageChunks.find(chunk => chunk.id === String(result.metadata.id));
+      if (!match) {
+        expanded.push({ result, pageUrl: null, chunks: [] });
+        continue;
+      }
+
+      const run = selectRun(match, pageChunks, options);
+
+      // Fold into an earlier (better-ranked) result from the same page when the runs touch
+      const earlier = expanded.find(entry =>
+        entry.pageUrl === pageUrl &&
+        entry.chunks.length > 0 &&
+        run[0].chunk_index! <= entry.chunks[entry.chunks.length - 1].chunk_index! + 1 &&
+        run[run.length - 1].chunk_index! >= entry.chunks[0].chunk_index! - 1
+      );
+      if (earlier) {
+        const merged = new Map([...earlier.chunks, ...run].map(chunk => [chunk.chunk_index!, chunk]));
+        earlier.chunks = Array.from(merged.values()).sort((a, b) => a.chunk_index! - b.chunk_index!);
+        continue;
+      }
+
+      expanded.push({ result, pageUrl, chunks: run });
+    }
+
+    const added = expanded.reduce((sum, entry) => sum + Math.max(entry.chunks.length - 1, 0), 0);
+    console.log(`Context expansion (${options.mode}): ${results.length} results → ${expanded.length}, ${added} neighbouring chunks added`);
+
+    return expanded.map(({ result, chunks }) => chunks.length > 1
+      ? { ...result, content: chunks.map(chunk => chunk.content).reduce(joinOverlapping) }
+      : result
+    );
+  } catch (error) {
+    console.error('Error expanding context, keeping matched chunks only:', error);
+    return results;
+  }
+}
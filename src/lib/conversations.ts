@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto';
+import type { Citation } from '@/lib/citations';
+import { deleteJsonFile, readJsonFile, updateJsonFile, writeJsonFile } from '@/lib/file-store';
+
+// Summaries of all conversations; each conversation's messages live in their own file
+const CONVERSATIONS_FILE = 'conversations.json';
+
+// Titles are taken from the first question, cut to this length
+const MAX_TITLE_LENGTH = 80;
+
+export interface MessageSource {
+  url: string;
+  title: string;
+  section: string | null;
+  similarity: number;
+  relevance?: number | null;
+  contentType?: string | null;
+  keyPoints?: string[];
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  sources?: MessageSource[]; // Retrieved chunks the answer was based on (assistant messages only)
+  citations?: Citation[];
+  stopped?: boolean; // The user stopped generation; content is the partial answer they saw
+}
+
+export interface ConversationSummary {
+  id: string;
+  knowledgeBaseId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: ConversationMessage[];
+}
+
+function conversationFile(id: string): string {
+  return `conversations/${id}.json`;
+}
+
+// IDs end up in file names, so only accept the UUIDs we generate
+function isValidConversationId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+}
+
+function titleFromMessage(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.substring(0, MAX_TITLE_LENGTH - 3)}...` : text;
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  const { messages, ...summary } = conversation;
+  return { ...summary, messageCount: messages.length };
+}
+
+// List conversations, most recently active first, optionally limited to one knowledge base
+export async function listConversations(knowledgeBaseId?: string): Promise<ConversationSummary[]> {
+  const conversations = await readJsonFile<ConversationSummary[]>(CONVERSATIONS_FILE, []);
+  return conversations
+    .filter(conversation => !knowledgeBaseId || conversation.knowledgeBaseId === knowledgeBaseId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Get a conversation with all its messages
+export async function getConversation(id: string): Promise<Conversation | null> {
+  if (!isValidConversationId(id)) {
+    return null;
+  }
+  return readJsonFile<Conversation | null>(conversationFile(id), null);
+}
+
+// Start an empty conversation against a knowledge base; the title defaults to the first question
+export async function createConversation(input: { knowledgeBaseId: string; title?: string }): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: randomUUID(),
+    knowledgeBaseId: input.knowledgeBaseId,
+    title: input.title?.trim() || '',
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+    messages: [],
+  };
+
+  await writeJsonFile(conversationFile(conversation.id), conversation);
+  await updateJsonFile(CONVERSATIONS_FILE, [], (conversations: ConversationSummary[]) => {
+    conversations.push(toSummary(conversation));
+  });
+
+  console.log(`Created conversation ${conversation.id} for knowledge base ${input.knowledgeBaseId}`);
+  return conversation;
+}
+
+// Append messages to a conversation, timestamping them; returns the updated conversation
+export async function appendMessages(
+  id: string,
+  messages: Array<Omit<ConversationMessage, 'id' | 'createdAt'>>
+): Promise<Conversation | null> {
+  if (!(await getConversation(id))) {
+    return null;
+  }
+
+  const updated = await updateJsonFile<Conversation | null, Conversation | null>(conversationFile(id), null, conversation => {
+    if (!conversation) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    conversation.messages.push(...messages.map(message => ({ ...message, id: randomUUID(), createdAt: now })));
+    conversation.messageCount = conversation.messages.length;
+    conversation.updatedAt = now;
+    if (!conversation.title) {
+      const firstQuestion = conversation.messages.find(message => message.role === 'user');
+      conversation.title = firstQuestion ? titleFromMessage(firstQuestion.content) : '';
+    }
+    return conversation;
+  });
+
+  if (!updated) {
+    return null;
+  }
+
+  await updateJsonFile(CONVERSATIONS_FILE, [], (conversations: ConversationSummary[]) => {
+    const index = conversations.findIndex(conversation => conversation.id === id);
+    if (index !== -1) {
+      conversations[index] = toSummary(updated);
+    }
+  });
+  return updated;
+}
+
+// Delete a conversation and its messages; returns false if it doesn't exist
+export async function deleteConversation(id: string): Promise<boolean> {
+  if (!isValidConversationId(id)) {
+    return false;
+  }
+
+  const removed = await updateJsonFile(CONVERSATIONS_FILE, [], (conversations: ConversationSummary[]) => {
+    const index = conversations.findIndex(conversation => conversation.id === id);
+    if (index !== -1) {
+      conversations.splice(index, 1);
+    }
+    return index !== -1;
+  });
+  await deleteJsonFile(conversationFile(id));
+
+  if (removed) {
+    console.log(`Deleted conversation ${id}`);
+  }
+  return removed;
+}
+
+// Render stored messages as the "User: ..." / "Assistant: ..." lines the LLM prompts expect
+export function formatConversationHistory(conversation: Conversation): string[] {
+  return conversation.messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`);
+}
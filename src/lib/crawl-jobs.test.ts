@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseCrawlJobOptions } from '@/lib/crawl-jobs';
+
+describe('parseCrawlJobOptions', () => {
+  it('keeps valid options and converts numeric strings', () => {
+    expect(parseCrawlJobOptions({
+      maxDepth: '2',
+      maxPages: 50,
+      userAgent: 'DocsBot/1.0',
+      respectRobots: false,
+      includeDocuments: true,
+      fetcher: 'http',
+    })).toEqual({
+      maxDepth: 2,
+      maxPages: 50,
+      userAgent: 'DocsBot/1.0',
+      respectRobots: false,
+      includeDocuments: true,
+      fetcher: 'http',
+    });
+  });
+
+  it('leaves out options that were not given', () => {
+    expect(parseCrawlJobOptions({ maxPages: '', userAgent: '', useSitemap: null })).toEqual({ fetcher: undefined });
+  });
+
+  it('rejects switches that are not booleans and a userAgent that is not a string', () => {
+    expect(() => parseCrawlJobOptions({ respectRobots: 'false' })).toThrow('respectRobots must be true or false');
+    expect(() => parseCrawlJobOptions({ contentExtraction: 0 })).toThrow('contentExtraction must be true or false');
+    expect(() => parseCrawlJobOptions({ userAgent: ['DocsBot'] })).toThrow('userAgent must be a string');
+  });
+
+  it('rejects limits that are not non-negative integers', () => {
+    expect(() => parseCrawlJobOptions({ maxPages: 'abc' })).toThrow('maxPages must be a non-negative integer');
+    expect(() => parseCrawlJobOptions({ maxDepth: -1 })).toThrow('maxDepth must be a non-negative integer');
+  });
+});
@@ -0,0 +1,343 @@
+import { randomUUID } from 'crypto';
+import type { PageExtractionReport } from '@/lib/content-extraction';
+import { crawlWebsite, CrawlOptions, CrawlPlan } from '@/lib/crawler';
+import { fetchDocument } from '@/lib/documents';
+import { getEmbeddingSpec } from '@/lib/embedding-providers';
+import { generateSiteInsights, ingestPage, PageToIngest, SiteInsights } from '@/lib/ingestion';
+import { getChunkingOptions, getKnowledgeBase } from '@/lib/knowledge-bases';
+import { isBrowserFetcherAvailable, parseFetcherMode } from '@/lib/page-fetchers';
+import { getVectorStore } from '@/lib/vector-store';
+
+// Finished jobs are kept around this long so clients can read the final status
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export type CrawlJobPhase =
+  | 'queued'
+  | 'fetching'
+  | 'summarizing'
+  | 'embedding'
+  | 'storing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type CrawlJobOptions = Omit<CrawlOptions, 'signal' | 'onProgress'>;
+
+// Crawl limits that must be non-negative integers when given
+const NUMERIC_CRAWL_OPTIONS = ['maxDepth', 'maxPages', 'maxDocuments', 'timeoutMs', 'crawlDelayMs'] as const;
+
+// Crawl switches that must be real booleans when given; the string "false" would otherwise count as on
+const BOOLEAN_CRAWL_OPTIONS = ['respectRobots', 'useSitemap', 'includeDocuments', 'contentExtraction'] as const;
+
+export interface CrawlJob {
+  id: string;
+  knowledgeBaseId: string;
+  url: string;
+  options: CrawlJobOptions;
+  phase: CrawlJobPhase;
+  pagesDone: number;
+  pagesTotal: number;
+  currentUrl: string | null;
+  chunksStored: number;
+  chunksUnchanged: number;
+  chunksDeleted: number;
+  errors: Array<{ url?: string; error: string }>;
+  plan: CrawlPlan | null;
+  // What content extraction removed from each page, for debugging; null when it was off
+  extraction: {
+    repeatedBlocks: Array<{ text: string; pageCount: number }>;
+    pages: Array<{ url: string } & PageExtractionReport>;
+  } | null;
+  pages: Array<{
+    url: string;
+    title: string;
+    chunksStored: number;
+    chunksUnchanged: number;
+    chunksDeleted: number;
+  }>;
+  insights: SiteInsights | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+// Keep jobs on globalThis so they survive module reloads in development
+const globalForJobs = globalThis as unknown as {
+  crawlJobs?: Map<string, CrawlJob>;
+  crawlJobControllers?: Map<string, AbortController>;
+  crawlJobRuns?: Map<string, Promise<void>>;
+};
+const jobs = globalForJobs.crawlJobs ?? (globalForJobs.crawlJobs = new Map());
+const controllers = globalForJobs.crawlJobControllers ?? (globalForJobs.crawlJobControllers = new Map());
+const runs = globalForJobs.crawlJobRuns ?? (globalForJobs.crawlJobRuns = new Map());
+
+function isFinished(job: CrawlJob) {
+  return job.phase === 'completed' || job.phase === 'failed' || job.phase === 'cancelled';
+}
+
+function updateJob(job: CrawlJob, changes: Partial<CrawlJob>) {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  if (isFinished(job) && !job.finishedAt) {
+    job.finishedAt = job.updatedAt;
+  }
+}
+
+// Drop finished jobs that nobody has asked about for a while
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+      jobs.delete(id);
+      runs.delete(id);
+    }
+  }
+}
+
+// Run the crawl → summarize → embed → store pipeline for a job
+async function runCrawlJob(job: CrawlJob, signal: AbortSignal) {
+  try {
+    const knowledgeBase = await getKnowledgeBase(job.knowledgeBaseId);
+    if (!knowledgeBase) {
+      throw new Error(`Knowledge base ${job.knowledgeBaseId} not found`);
+    }
+    const { collectionName } = knowledgeBase;
+
+    // Initialize database if not already done (fails if the collection uses another embedding model)
+    await getVectorStore().initializeDatabase(collectionName, getEmbeddingSpec());
+
+    updateJob(job, { phase: 'fetching' });
+    const crawlResult = await crawlWebsite(job.url, {
+      ...job.options,
+      signal,
+      onProgress: ({ pagesFetched, pagesQueued, currentUrl }) => {
+        updateJob(job, { pagesDone: pagesFetched, pagesTotal: pagesQueued, currentUrl });
+      },
+    });
+
+    const extractedPages = crawlResult.pages.filter(page => page.extraction);
+    updateJob(job, {
+      plan: crawlResult.plan,
+      extraction: extractedPages.length > 0
+        ? {
+            repeatedBlocks: crawlResult.repeatedBlocks,
+            pages: extractedPages.map(page => ({ url: page.url, ...page.extraction! })),
+          }
+        : null,
+      errors: [...crawlResult.errors],
+      pagesDone: crawlResult.pages.length,
+      pagesTotal: crawlResult.pages.length,
+      currentUrl: null,
+    });
+
+    // Linked PDFs are downloaded and ingested like pages, under their own URL
+    const documents: PageToIngest[] = [];
+    for (const documentUrl of crawlResult.documentUrls) {
+      signal.throwIfAborted();
+      updateJob(job, { currentUrl: documentUrl });
+      try {
+        const extracted = await fetchDocument(documentUrl, {
+          timeoutMs: job.options.timeoutMs,
+          userAgent: crawlResult.plan.userAgent,
+          signal,
+        });
+        documents.push({ url: documentUrl, ...extracted });
+      } catch (documentError) {
+        if (signal.aborted) {
+          throw documentError;
+        }
+        console.error(`Error fetching document ${documentUrl}:`, documentError);
+        updateJob(job, {
+          errors: [...job.errors, {
+            url: documentUrl,
+            error: documentError instanceof Error ? documentError.message : 'Unknown document error',
+          }],
+        });
+      }
+    }
+
+    const pagesWithContent: PageToIngest[] = [...crawlResult.pages, ...documents].filter(page => page.content);
+    if (pagesWithContent.length === 0) {
+      console.log('No content found in crawled pages, skipping storage');
+      const hint = isBrowserFetcherAvailable()
+        ? ''
+        : ' (pages rendered with JavaScript need a headless browser; set CHROMIUM_PATH)';
+      updateJob(job, {
+        phase: 'failed',
+        errors: [...job.errors, { error: `No content found in crawled pages${hint}` }],
+      });
+      return;
+    }
+
+    // Site-level insights come from the start page
+    signal.throwIfAborted();
+    updateJob(job, { phase: 'summarizing', currentUrl: pagesWithContent[0].url });
+    const insights = await generateSiteInsights(pagesWithContent[0].content);
+    updateJob(job, { insights, pagesDone: 0, pagesTotal: pagesWithContent.length });
+
+    const crawledAt = new Date().toISOString();
+    // The file vector store saves the collection once, after the last page
+    await getVectorStore().batchWrites(collectionName, async () => {
+      for (const [index, page] of pagesWithContent.entries()) {
+        signal.throwIfAborted();
+        updateJob(job, { currentUrl: page.url });
+
+        try {
+          const pageResult = await ingestPage(page, insights, {
+            collectionName,
+            crawledAt,
+            isStartPage: index === 0,
+            chunking: getChunkingOptions(knowledgeBase),
+            onPhase: phase => updateJob(job, { phase }),
+          });
+          updateJob(job, {
+            pages: [...job.pages, pageResult],
+            chunksStored: job.chunksStored + pageResult.chunksStored,
+            chunksUnchanged: job.chunksUnchanged + pageResult.chunksUnchanged,
+            chunksDeleted: job.chunksDeleted + pageResult.chunksDeleted,
+          });
+        } catch (pageError) {
+          console.error(`Error ingesting page ${page.url}:`, pageError);
+          updateJob(job, {
+            errors: [...job.errors, {
+              url: page.url,
+              error: pageError instanceof Error ? pageError.message : 'Unknown processing error',
+            }],
+          });
+        }
+
+        updateJob(job, { pagesDone: index + 1 });
+      }
+    });
+
+    console.log(`Crawl job ${job.id} stored ${job.chunksStored} chunks (${job.chunksUnchanged} unchanged, ${job.chunksDeleted} deleted) from ${pagesWithContent.length} pages and documents of ${job.url}`);
+    updateJob(job, {
+      phase: job.chunksStored + job.chunksUnchanged > 0 ? 'completed' : 'failed',
+      currentUrl: null,
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`Crawl job ${job.id} cancelled`);
+      updateJob(job, { phase: 'cancelled', currentUrl: null });
+      return;
+    }
+
+    console.error(`Crawl job ${job.id} failed:`, error);
+    updateJob(job, {
+      phase: 'failed',
+      currentUrl: null,
+      errors: [...job.errors, { error: error instanceof Error ? error.message : 'Unknown error' }],
+    });
+  } finally {
+    controllers.delete(job.id);
+  }
+}
+
+// Validate crawl options from a request or a refresh schedule, so bad values are rejected up front
+// rather than failing the job later; throws with a message suitable for a 400 response. Numeric
+// strings such as "3" are accepted.
+export function parseCrawlJobOptions(input: Record<string, unknown>): CrawlJobOptions {
+  const options: CrawlJobOptions = {
+    fetcher: parseFetcherMode(input.fetcher),
+  };
+
+  if (input.userAgent !== undefined && input.userAgent !== null && input.userAgent !== '') {
+    if (typeof input.userAgent !== 'string') {
+      throw new Error('userAgent must be a string');
+    }
+    options.userAgent = input.userAgent;
+  }
+
+  for (const name of BOOLEAN_CRAWL_OPTIONS) {
+    const value = input[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'boolean') {
+      throw new Error(`${name} must be true or false`);
+    }
+    options[name] = value;
+  }
+
+  for (const name of NUMERIC_CRAWL_OPTIONS) {
+    const value = input[name];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+    options[name] = number;
+  }
+  return options;
+}
+
+// Create a crawl job and start it in the background
+export function startCrawlJob(knowledgeBaseId: string, url: string, options: CrawlJobOptions = {}): CrawlJob {
+  pruneFinishedJobs();
+
+  const now = new Date().toISOString();
+  const job: CrawlJob = {
+    id: randomUUID(),
+    knowledgeBaseId,
+    url,
+    options,
+    phase: 'queued',
+    pagesDone: 0,
+    pagesTotal: 0,
+    currentUrl: null,
+    chunksStored: 0,
+    chunksUnchanged: 0,
+    chunksDeleted: 0,
+    errors: [],
+    plan: null,
+    extraction: null,
+    pages: [],
+    insights: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+  };
+
+  const controller = new AbortController();
+  jobs.set(job.id, job);
+  controllers.set(job.id, controller);
+
+  console.log(`Starting crawl job ${job.id} for ${url} into knowledge base ${knowledgeBaseId}`);
+  runs.set(job.id, runCrawlJob(job, controller.signal));
+
+  return job;
+}
+
+// Look up a crawl job by ID
+export function getCrawlJob(id: string): CrawlJob | null {
+  return jobs.get(id) || null;
+}
+
+// Wait for a crawl job to finish and return its final state
+export async function waitForCrawlJob(id: string): Promise<CrawlJob | null> {
+  await runs.get(id);
+  return getCrawlJob(id);
+}
+
+// List all known crawl jobs, newest first
+export function listCrawlJobs(): CrawlJob[] {
+  pruneFinishedJobs();
+  return Array.from(jobs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Cancel a running crawl job; returns the job, or null if it doesn't exist
+export function cancelCrawlJob(id: string): CrawlJob | null {
+  const job = jobs.get(id);
+  if (!job) {
+    return null;
+  }
+
+  const controller = controllers.get(id);
+  if (controller && !isFinished(job)) {
+    console.log(`Cancelling crawl job ${id}`);
+    controller.abort();
+  }
+
+  return job;
+}
@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { crawlWebsite, CrawlOptions } from '@/lib/crawler';
+
+// A small site served from localhost: robots.txt disallows /private/, the sitemap lists a page
+// nothing links to, and the home page links off-origin, to an image and to a PDF
+const page = (title: string, links: string[]) => `<!doctype html><html><head><title>${title}</title></head><body>
+<h1>${title}</h1><p>This is the ${title} page of the fixture site.</p>
+${links.map(link => `<a href="${link}">${link}</a>`).join('\n')}
+</body></html>`;
+
+let origin = '';
+let server: http.Server;
+
+function route(pathname: string): { status?: number; type: string; body: string } {
+  switch (pathname) {
+    case '/robots.txt':
+      return { type: 'text/plain', body: `User-agent: *\nDisallow: /private/\nSitemap: ${origin}/sitemap.xml\n` };
+    case '/sitemap.xml':
+      return {
+        type: 'application/xml',
+        body: `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>${origin}/from-sitemap</loc></url></urlset>`,
+      };
+    case '/':
+      return { type: 'text/html', body: page('Home', ['/about', '/docs#intro', '/private/secret', 'https://other.example/page', '/guide.pdf', '/logo.png']) };
+    case '/about':
+      return { type: 'text/html', body: page('About', ['/', '/about/team']) };
+    case '/about/team':
+      return { type: 'text/html', body: page('Team', ['/about']) };
+    case '/docs':
+      return { type: 'text/html', body: page('Docs', []) };
+    case '/from-sitemap':
+      return { type: 'text/html', body: page('Sitemap only', []) };
+    case '/private/secret':
+      return { type: 'text/html', body: page('Secret', []) };
+    case '/guide.pdf':
+      return { type: 'application/pdf', body: '%PDF-1.4' };
+    default:
+      return { status: 404, type: 'text/plain', body: 'Not found' };
+  }
+}
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const { status = 200, type, body } = route(new URL(request.url || '/', origin).pathname);
+    response.writeHead(status, { 'content-type': type });
+    response.end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const crawl = (options: CrawlOptions = {}) =>
+  crawlWebsite(`${origin}/`, { fetcher: 'http', timeoutMs: 5000, ...options });
+
+const paths = (urls: string[]) => urls.map(url => new URL(url).pathname).sort();
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('crawlWebsite', () => {
+  it('follows same-origin links, skips disallowed pages and collects linked PDFs', async () => {
+    const result = await crawl({ maxDepth: 2 });
+
+    expect(paths(result.pages.map(crawled => crawled.url))).toEqual(['/', '/about', '/about/team', '/docs', '/from-sitemap']);
+    expect(paths(result.plan.disallowedUrls)).toEqual(['/private/secret']);
+    expect(result.plan.robotsTxtFound).toBe(true);
+    expect(result.documentUrls).toEqual([`${origin}/guide.pdf`]);
+    expect(result.errors).toEqual([]);
+
+    const home = result.pages.find(crawled => new URL(crawled.url).pathname === '/')!;
+    expect(home.title).toBe('Home');
+    expect(home.depth).toBe(0);
+    expect(home.content).toContain('This is the Home page of the fixture site.');
+    expect(home.links.every(link => link.startsWith(origin))).toBe(true);
+  });
+
+  it('plans the start URL and sitemap URLs before crawling', async () => {
+    const result = await crawl({ maxDepth: 0 });
+
+    expect(result.plan.plannedUrls).toEqual([`${origin}/`, `${origin}/from-sitemap`]);
+    expect(result.plan.sitemaps).toEqual([`${origin}/sitemap.xml`]);
+    expect(paths(result.pages.map(crawled => crawled.url))).toEqual(['/', '/from-sitemap']);
+  });
+
+  it('crawls disallowed pages when robots.txt is ignored', async () => {
+    const result = await crawl({ maxDepth: 1, respectRobots: false });
+
+    expect(result.plan.robotsTxtFound).toBe(false);
+    expect(paths(result.pages.map(crawled => crawled.url))).toContain('/private/secret');
+  });
+
+  it('stops at maxDepth and maxPages', async () => {
+    const shallow = await crawl({ maxDepth: 1, useSitemap: false });
+    expect(paths(shallow.pages.map(crawled => crawled.url))).toEqual(['/', '/about', '/docs']);
+    expect(shallow.plan.plannedUrls).toEqual([`${origin}/`]);
+
+    const limited = await crawl({ maxDepth: 2, maxPages: 2 });
+    expect(limited.pages).toHaveLength(2);
+  });
+
+  it('leaves out linked documents when includeDocuments is false', async () => {
+    const result = await crawl({ maxDepth: 1, includeDocuments: false });
+    expect(result.documentUrls).toEqual([]);
+  });
+
+  it('uses CRAWL_FETCHER when no fetcher is given and rejects an unknown one', async () => {
+    vi.stubEnv('CRAWL_FETCHER', 'http');
+    expect((await crawl({ maxDepth: 0, fetcher: undefined })).pages).toHaveLength(2);
+
+    vi.stubEnv('CRAWL_FETCHER', 'chrome');
+    await expect(crawl({ maxDepth: 0, fetcher: undefined })).rejects.toThrow('Unknown CRAWL_FETCHER "chrome"');
+  });
+});
@@ -0,0 +1,333 @@
+import * as cheerio from 'cheerio';
+import { DEFAULT_CONTENT_EXTRACTION, extractMainContent, PageExtractionReport, removeRepeatedBlocks } from '@/lib/content-extraction';
+import { getDefaultUserAgent } from '@/lib/http';
+import { htmlToMarkdown } from '@/lib/markdown';
+import {
+  AUTO_BROWSER_MIN_TEXT_LENGTH,
+  createBrowserFetcher,
+  createHttpFetcher,
+  FetcherMode,
+  getDefaultFetcherMode,
+  isBrowserFetcherAvailable,
+} from '@/lib/page-fetchers';
+import { EMPTY_ROBOTS_RULES, fetchRobotsRules, isAllowedByRobots, RobotsRules } from '@/lib/robots';
+import { discoverSitemapUrls } from '@/lib/sitemap';
+
+const DEFAULT_MAX_DEPTH = Number(process.env.CRAWL_MAX_DEPTH || 2);
+const DEFAULT_MAX_PAGES = Number(process.env.CRAWL_MAX_PAGES || 25);
+const DEFAULT_TIMEOUT_MS = Number(process.env.CRAWL_TIMEOUT_MS || 15000);
+const DEFAULT_MAX_DOCUMENTS = Number(process.env.CRAWL_MAX_DOCUMENTS || 10);
+
+// Links pointing at these file types are never worth fetching as pages
+const SKIPPED_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|bmp|css|js|mjs|json|xml|zip|gz|tar|rar|7z|mp3|mp4|webm|avi|mov|woff2?|ttf|eot|exe|dmg)$/i;
+
+// Linked documents that are ingested alongside the pages instead of being crawled
+const DOCUMENT_EXTENSIONS = /\.pdf$/i;
+
+// Elements that never contain readable page text
+const NON_CONTENT_SELECTORS = 'script, style, noscript, template, svg, canvas, iframe, object, embed';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  timeoutMs?: number;
+  userAgent?: string;
+  respectRobots?: boolean;
+  useSitemap?: boolean;
+  includeDocuments?: boolean; // Collect same-origin PDFs linked from crawled pages (default true)
+  maxDocuments?: number;
+  // How pages are fetched: http, browser (headless Chromium) or auto (browser only for pages whose
+  // static HTML has too little text); defaults to CRAWL_FETCHER
+  fetcher?: FetcherMode;
+  // Keep only each page's main content and drop blocks repeated across pages (default true)
+  contentExtraction?: boolean;
+  // Minimum delay between requests; robots.txt Crawl-delay wins if larger
+  crawlDelayMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: { pagesFetched: number; pagesQueued: number; currentUrl: string }) => void;
+}
+
+export interface CrawlPlan {
+  startUrl: string;
+  userAgent: string;
+  robotsTxtFound: boolean;
+  crawlDelayMs: number;
+  sitemaps: string[];
+  plannedUrls: string[];
+  disallowedUrls: string[];
+}
+
+export interface CrawledPage {
+  url: string;
+  title: string;
+  description: string;
+  content: string;
+  contentType: string;
+  depth: number;
+  links: string[];
+  extraction: PageExtractionReport | null; // What content extraction removed; null when it was off
+  fetcher: 'http' | 'browser'; // Which fetcher produced the content
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  plan: CrawlPlan;
+  pages: CrawledPage[];
+  documentUrls: string[]; // Linked PDFs to download and ingest with the pages
+  repeatedBlocks: Array<{ text: string; pageCount: number }>; // Boilerplate removed across pages
+  errors: Array<{ url: string; error: string }>;
+}
+
+// Resolve a link against its page and strip fragments; returns null for non-http(s) links
+export function normalizeUrl(link: string, baseUrl?: string): string | null {
+  try {
+    const parsed = new URL(link, baseUrl);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Extract title, description, readable text (as Markdown, keeping headings, lists, tables and
+// code blocks) and outgoing links from an HTML document. With content extraction on, the text
+// is limited to the page's main content.
+export function extractPageContent(html: string, pageUrl: string, options: { contentExtraction?: boolean } = {}) {
+  const $ = cheerio.load(html);
+
+  const title = ($('title').first().text() || $('h1').first().text() || '').replace(/\s+/g, ' ').trim();
+  const description = ($('meta[name="description"]').attr('content')
+    || $('meta[property="og:description"]').attr('content')
+    || '').trim();
+
+  const links = new Set<string>();
+  $('a[href]').each((_, el) => {
+    const normalized = normalizeUrl($(el).attr('href') || '', pageUrl);
+    if (normalized) {
+      links.add(normalized);
+    }
+  });
+
+  $(NON_CONTENT_SELECTORS).remove();
+  const extracted = (options.contentExtraction ?? DEFAULT_CONTENT_EXTRACTION) ? extractMainContent($) : null;
+  const content = htmlToMarkdown($, extracted?.root);
+
+  return { title, description, content, links: Array.from(links), extraction: extracted?.report ?? null };
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Work out which pages to crawl from robots.txt and sitemap.xml before fetching anything
+export async function planCrawl(startUrl: string, options: CrawlOptions = {}): Promise<CrawlPlan & { robots: RobotsRules }> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const userAgent = options.userAgent || getDefaultUserAgent();
+
+  const start = normalizeUrl(startUrl);
+  if (!start) {
+    throw new Error(`Invalid start URL: ${startUrl}`);
+  }
+  const origin = new URL(start).origin;
+
+  const robots = options.respectRobots === false
+    ? EMPTY_ROBOTS_RULES
+    : await fetchRobotsRules(origin, userAgent, timeoutMs);
+
+  const sitemapDiscovery = options.useSitemap === false
+    ? { sitemaps: [], urls: [] }
+    : await discoverSitemapUrls(origin, robots.sitemaps, { userAgent, timeoutMs, maxUrls: maxPages * 4 });
+
+  const plannedUrls: string[] = [];
+  const disallowedUrls: string[] = [];
+  const candidates = [start, ...sitemapDiscovery.urls.map(url => normalizeUrl(url)).filter((url): url is string => !!url)];
+
+  for (const url of Array.from(new Set(candidates))) {
+    if (!isAllowedByRobots(robots, url)) {
+      disallowedUrls.push(url);
+    } else if (plannedUrls.length < maxPages) {
+      plannedUrls.push(url);
+    }
+  }
+
+  const robotsDelayMs = (robots.crawlDelaySeconds ?? 0) * 1000;
+  const crawlDelayMs = Math.max(options.crawlDelayMs ?? 0, robotsDelayMs);
+
+  console.log(`Crawl plan for ${start}: ${plannedUrls.length} planned, ${disallowedUrls.length} disallowed, delay ${crawlDelayMs}ms`);
+  return {
+    startUrl: start,
+    userAgent,
+    robotsTxtFound: robots.found,
+    crawlDelayMs,
+    sitemaps: sitemapDiscovery.sitemaps,
+    plannedUrls,
+    disallowedUrls,
+    robots,
+  };
+}
+
+// Crawl a website breadth-first, starting from the planned URLs and following
+// same-origin links up to maxDepth and maxPages
+export async function crawlWebsite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const contentExtraction = options.contentExtraction ?? DEFAULT_CONTENT_EXTRACTION;
+  const maxDocuments = options.includeDocuments === false ? 0 : options.maxDocuments ?? DEFAULT_MAX_DOCUMENTS;
+
+  const { robots, ...plan } = await planCrawl(startUrl, options);
+  const origin = new URL(plan.startUrl).origin;
+
+  const pages: CrawledPage[] = [];
+  const documentUrls: string[] = [];
+  const errors: Array<{ url: string; error: string }> = [];
+  const visited = new Set<string>([...plan.plannedUrls, ...plan.disallowedUrls]);
+  const queue: Array<{ url: string; depth: number }> = plan.plannedUrls.map(url => ({ url, depth: 0 }));
+  let requestCount = 0;
+
+  // In auto mode the browser is only launched if a page turns out to need it
+  const fetcherMode = options.fetcher ?? getDefaultFetcherMode();
+  const httpFetcher = createHttpFetcher();
+  const browserFetcher = fetcherMode === 'browser' || (fetcherMode === 'auto' && isBrowserFetcherAvailable())
+    ? createBrowserFetcher()
+    : null;
+  const primaryFetcher = fetcherMode === 'browser' ? browserFetcher! : httpFetcher;
+  const fetchOptions = { timeoutMs, userAgent: plan.userAgent, signal: options.signal };
+  // The crawl loop only exits early by being cancelled, so that is when the browser must go too
+  const closeBrowser = () => browserFetcher?.close();
+  options.signal?.addEventListener('abort', closeBrowser, { once: true });
+
+  while (queue.length > 0 && pages.length < maxPages) {
+    options.signal?.throwIfAborted();
+    const { url, depth } = queue.shift()!;
+    options.onProgress?.({
+      pagesFetched: pages.length,
+      pagesQueued: Math.min(pages.length + queue.length + 1, maxPages),
+      currentUrl: url,
+    });
+
+    try {
+      if (requestCount > 0 && plan.crawlDelayMs > 0) {
+        await sleep(plan.crawlDelayMs);
+      }
+      requestCount++;
+
+      console.log(`Crawling (depth ${depth}): ${url}`);
+      const fetched = await primaryFetcher.fetchPage(url, fetchOptions);
+      fetched.finalUrl = normalizeUrl(fetched.finalUrl) || url;
+      if (fetched.html === null) {
+        // PDFs served without a .pdf extension are only recognised by their content type
+        if (fetched.contentType === 'application/pdf' && documentUrls.length < maxDocuments && !documentUrls.includes(fetched.finalUrl)) {
+          documentUrls.push(fetched.finalUrl);
+        } else {
+          console.log(`Skipping non-HTML response: ${url}`);
+        }
+        continue;
+      }
+
+      // Redirects can land on a page we've already crawled or aren't allowed to crawl
+      if (fetched.finalUrl !== url) {
+        if (
+          visited.has(fetched.finalUrl)
+          || new URL(fetched.finalUrl).origin !== origin
+          || !isAllowedByRobots(robots, fetched.finalUrl)
+        ) {
+          continue;
+        }
+        visited.add(fetched.finalUrl);
+      }
+
+      let extracted = extractPageContent(fetched.html, fetched.finalUrl, { contentExtraction });
+      let fetcher = primaryFetcher.name;
+
+      // Single-page apps send an almost empty shell; render those in the browser instead
+      if (fetcherMode === 'auto' && browserFetcher && extracted.content.length < AUTO_BROWSER_MIN_TEXT_LENGTH) {
+        try {
+          console.log(`Only ${extracted.content.length} characters of static text, rendering in browser: ${fetched.finalUrl}`);
+          const rendered = await browserFetcher.fetchPage(fetched.finalUrl, fetchOptions);
+          const renderedExtract = rendered.html !== null
+            ? extractPageContent(rendered.html, fetched.finalUrl, { contentExtraction })
+            : null;
+          if (renderedExtract && renderedExtract.content.length > extracted.content.length) {
+            extracted = renderedExtract;
+            fetcher = browserFetcher.name;
+          }
+        } catch (renderError) {
+          if (options.signal?.aborted) {
+            throw renderError;
+          }
+          console.error(`Error rendering ${fetched.finalUrl}, keeping static HTML:`, renderError instanceof Error ? renderError.message : renderError);
+        }
+      }
+
+      const sameOriginLinks = extracted.links.filter(link => new URL(link).origin === origin);
+
+      pages.push({
+        url: fetched.finalUrl,
+        title: extracted.title,
+        description: extracted.description,
+        content: extracted.content,
+        contentType: fetched.contentType,
+        depth,
+        links: sameOriginLinks,
+        extraction: extracted.extraction,
+        fetcher,
+      });
+
+      // Linked PDFs are collected at any depth since they have no links of their own
+      for (const link of sameOriginLinks) {
+        if (
+          documentUrls.length < maxDocuments
+          && DOCUMENT_EXTENSIONS.test(new URL(link).pathname)
+          && !visited.has(link)
+          && isAllowedByRobots(robots, link)
+        ) {
+          visited.add(link);
+          documentUrls.push(link);
+        }
+      }
+
+      if (depth < maxDepth) {
+        for (const link of sameOriginLinks) {
+          if (visited.has(link) || SKIPPED_EXTENSIONS.test(new URL(link).pathname) || DOCUMENT_EXTENSIONS.test(new URL(link).pathname)) {
+            continue;
+          }
+          visited.add(link);
+          if (isAllowedByRobots(robots, link)) {
+            queue.push({ url: link, depth: depth + 1 });
+          } else {
+            plan.disallowedUrls.push(link);
+          }
+        }
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error crawling ${url}:`, message);
+      errors.push({ url, error: message });
+    }
+  }
+
+  options.signal?.removeEventListener('abort', closeBrowser);
+  await closeBrowser();
+
+  // Footers, menus and banners the per-page extraction missed show up on most pages
+  let repeatedBlocks: CrawlResult['repeatedBlocks'] = [];
+  if (contentExtraction) {
+    const deduplicated = removeRepeatedBlocks(pages.map(page => page.content));
+    pages.forEach((page, index) => {
+      page.content = deduplicated.contents[index];
+      page.extraction!.removedBlocks = deduplicated.removedBlocks[index];
+    });
+    repeatedBlocks = deduplicated.repeatedBlocks;
+  }
+
+  console.log(`Crawl finished: ${pages.length} pages, ${documentUrls.length} linked documents, ${errors.length} errors`);
+  return { startUrl: plan.startUrl, plan, pages, documentUrls, repeatedBlocks, errors };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronRun, parseCron } from '@/lib/cron';
+
+// Cron runs in server local time, so dates are built and compared in local time too
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-17 1,15 * 1-5');
+    expect(Array.from(cron.minute.values)).toEqual([0, 15, 30, 45]);
+    expect(cron.hour.values.size).toBe(9);
+    expect(Array.from(cron.dayOfMonth.values)).toEqual([1, 15]);
+    expect(cron.month.wildcard).toBe(true);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(parseCron('0 0 * * 7').dayOfWeek.values.has(0)).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('cron minute field');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+    expect(() => parseCron('0 5-3 * * *')).toThrow('cron hour field');
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(getNextCronRun('30 2 * * *', local(2024, 3, 10, 1, 0))).toEqual(local(2024, 3, 10, 2, 30));
+    expect(getNextCronRun('30 2 * * *', local(2024, 3, 10, 2, 30))).toEqual(local(2024, 3, 11, 2, 30));
+  });
+
+  it('rolls over months and years', () => {
+    expect(getNextCronRun('0 0 1 * *', local(2024, 12, 15))).toEqual(local(2025, 1, 1));
+    expect(getNextCronRun('0 12 29 2 *', local(2024, 3, 1))).toEqual(local(2028, 2, 29, 12));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-06-03 is a Monday; the 15th comes later
+    expect(getNextCronRun('0 8 15 * 1', local(2024, 6, 1))).toEqual(local(2024, 6, 3, 8));
+  });
+
+  it('requires both day fields when one is a stepped wildcard', () => {
+    // Odd days that are also Tuesdays: June 4 is an even Tuesday, June 11 an odd one
+    expect(parseCron('0 0 */2 * 2').dayOfMonth.wildcard).toBe(true);
+    expect(getNextCronRun('0 0 */2 * 2', local(2024, 6, 1))).toEqual(local(2024, 6, 11));
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => getNextCronRun('0 0 31 2 *', local(2024, 1, 1))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,125 @@
+// Minimal 5-field cron expression support: minute hour day-of-month month day-of-week.
+// Each field accepts *, numbers, ranges (a-b), steps (*/n, a-b/n) and comma-separated lists.
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronExpression {
+  source: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 are Sunday)
+];
+
+// Search at most this far ahead for the next matching time
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number], name: string): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? Number(stepPart) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron ${name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (expected ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Like standard cron, a stepped wildcard such as */2 still counts as unrestricted for day matching
+  return { values, wildcard: field.startsWith('*') };
+}
+
+// Parse a cron expression, throwing a descriptive error if it's invalid
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+  }
+
+  const names = ['minute', 'hour', 'day-of-month', 'month', 'day-of-week'];
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index], names[index])
+  );
+
+  // Treat 7 as Sunday
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return { source: expression, minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+// Day matching follows cron semantics: if both day fields are restricted (neither starts with *),
+// either may match; otherwise both must
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.dayOfMonth.values.has(date.getDate());
+  const dowMatch = cron.dayOfWeek.values.has(date.getDay());
+  if (cron.dayOfMonth.wildcard || cron.dayOfWeek.wildcard) return domMatch && dowMatch;
+  return domMatch || dowMatch;
+}
+
+// Find the next time (strictly after `after`, in server local time) matching the expression
+export function getNextCronRun(expression: string | CronExpression, after: Date = new Date()): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  while (next.getTime() <= limit) {
+    if (!cron.month.values.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression "${cron.source}" never matches`);
+}
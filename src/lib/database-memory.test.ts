@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ContentChunk, VectorStore } from '@/lib/vector-store';
+
+const spec = { model: 'test:embedding', dimension: 3 };
+
+const chunk = (content: string, embedding: number[], metadata: Record<string, unknown> = {}): ContentChunk => ({
+  content,
+  embedding,
+  metadata,
+});
+
+let dataDir = '';
+let createMemoryVectorStore: (options: { persist: boolean }) => VectorStore;
+let collectionCount = 0;
+const newCollection = () => `test_${Date.now()}_${collectionCount++}`;
+
+// file-store reads DATA_DIR when it is loaded, so point it at a temp directory first
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vector-store-'));
+  process.env.DATA_DIR = dataDir;
+  vi.resetModules();
+  ({ createMemoryVectorStore } = await import('@/lib/database-memory'));
+});
+
+afterAll(async () => {
+  delete process.env.DATA_DIR;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('memory vector store', () => {
+  it('returns the closest matches above the threshold, best first', async () => {
+    const store = createMemoryVectorStore({ persist: false });
+    const collectionName = newCollection();
+    await store.initializeDatabase(collectionName, spec);
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/', 'Example', 'A site', [
+      chunk('About fish', [0, 0, 1]),
+      chunk('About cats and dogs', [0.8, 0.6, 0]),
+      chunk('About cats', [1, 0, 0]),
+    ]);
+
+    const results = await store.searchSimilarContent(collectionName, [1, 0, 0], 5, 0.5);
+    expect(results.map(result => result.content)).toEqual(['About cats', 'About cats and dogs']);
+    expect(results[0].similarity).toBeCloseTo(1);
+    expect(results[0]).toMatchObject({ url: 'https://example.com/', title: 'Example' });
+
+    expect(await store.searchSimilarContent(collectionName, [0, 1, -1], 5, 0.9)).toEqual([]);
+  });
+
+  it('applies filters and keeps unmapped metadata as attributes', async () => {
+    const store = createMemoryVectorStore({ persist: false });
+    const collectionName = newCollection();
+    await store.initializeDatabase(collectionName, spec);
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/a', 'A', '', [
+      chunk('Page A', [1, 0, 0], { contentType: 'text/html', language: 'en' }),
+    ]);
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/b', 'B', '', [
+      chunk('Page B', [1, 0, 0], { contentType: 'application/pdf', language: 'de' }),
+    ]);
+
+    const results = await store.searchSimilarContent(collectionName, [1, 0, 0], 5, 0, {
+      op: 'eq',
+      field: 'attributes.language',
+      value: 'de',
+    });
+    expect(results.map(result => result.url)).toEqual(['https://example.com/b']);
+    expect(results[0].metadata.content_type).toBe('application/pdf');
+  });
+
+  it('lists, counts and deletes websites', async () => {
+    const store = createMemoryVectorStore({ persist: false });
+    const collectionName = newCollection();
+    await store.initializeDatabase(collectionName, spec);
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/a', 'A', '', [
+      chunk('First chunk of A', [1, 0, 0]),
+      chunk('Second chunk of A', [0, 1, 0]),
+    ]);
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/b', 'B', '', [chunk('Only chunk of B', [0, 0, 1])]);
+
+    const websites = await store.getAllWebsites(collectionName);
+    expect(websites.map(website => [website.url, website.chunkCount]).sort()).toEqual([
+      ['https://example.com/a', 2],
+      ['https://example.com/b', 1],
+    ]);
+
+    // Storing the same chunks again overwrites them
+    await store.storeWebsiteChunks(collectionName, 'https://example.com/b', 'B', '', [chunk('Only chunk of B', [0, 0, 1])]);
+    expect((await store.checkCollectionData(collectionName)).count).toBe(3);
+
+    expect(await store.deleteWebsiteData(collectionName, 'https://example.com/a')).toEqual({ success: true, deletedChunks: 2 });
+    const status = await store.checkCollectionData(collectionName);
+    expect(status).toMatchObject({ hasData: true, count: 1, sample: { url: 'https://example.com/b' } });
+
+    expect(await store.checkCollectionData(newCollection())).toMatchObject({ hasData: false, count: 0 });
+  });
+
+  it('upserts chunks by ID, so unchanged chunks keep theirs and changed ones get new ones', async () => {
+    const store = createMemoryVectorStore({ persist: false });
+    const collectionName = newCollection();
+    await store.initializeDatabase(collectionName, spec);
+    const first = await store.storeWebsiteChunks(collectionName, 'https://example.com/a', 'A', '', [
+      chunk('Unchanged intro', [1, 0, 0], { chunkIndex: 0, totalChunks: 2 }),
+      chunk('Old pricing', [0, 1, 0], { chunkIndex: 1, totalChunks: 2 }),
+    ]);
+    const second = await store.storeWebsiteChunks(collectionName, 'https://example.com/a', 'A', '', [
+      chunk('Unchanged intro', [1, 0, 0], { chunkIndex: 0, totalChunks: 2 }),
+      chunk('New pricing', [0, 1, 0], { chunkIndex: 1, totalChunks: 2 }),
+    ]);
+
+    expect(second.ids[0]).toBe(first.ids[0]);
+    expect(second.ids[1]).not.toBe(first.ids[1]);
+    expect((await store.getChunksByIds(collectionName, [...second.ids].reverse())).map(stored => stored.content))
+      .toEqual(['New pricing', 'Unchanged intro']);
+
+    // Rows written under an existing ID replace it
+    const [stored] = await store.listChunks(collectionName);
+    await store.insertChunks(collectionName, [{ ...stored, content: 'Rewritten', embedding: [0, 0, 1] }]);
+    expect((await store.getChunksByIds(collectionName, [stored.id]))[0].content).toBe('Rewritten');
+    expect((await store.checkCollectionData(collectionName)).count).toBe(3);
+  });
+
+  it('refuses to open a collection with a different embedding model', async () => {
+    const store = createMemoryVectorStore({ persist: false });
+    const collectionName = newCollection();
+    await store.initializeDatabase(collectionName, spec);
+
+    await expect(store.initializeDatabase(collectionName, { model: 'other:embedding', dimension: 3 }))
+      .rejects.toThrow(`Collection ${collectionName} was built with test:embedding`);
+  });
+
+  it('saves a persisted collection once, as compact JSON, when a batch of writes ends', async () => {
+    const store = createMemoryVectorStore({ persist: true });
+    const collectionName = newCollection();
+    const filePath = path.join(dataDir, 'vector-store', `${collectionName}.json`);
+    await store.initializeDatabase(collectionName, spec);
+    const initial = await fs.readFile(filePath, 'utf-8');
+
+    await store.batchWrites(collectionName, async () => {
+      await store.storeWebsiteChunks(collectionName, 'https://example.com/a', 'A', '', [chunk('Page A', [1, 0, 0])]);
+      await store.storeWebsiteChunks(collectionName, 'https://example.com/b', 'B', '', [chunk('Page B', [0, 1, 0])]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(initial);
+    });
+
+    const saved = await fs.readFile(filePath, 'utf-8');
+    expect(saved).not.toContain('\n');
+    expect(JSON.parse(saved).chunks).toHaveLength(2);
+
+    // A fresh process reads the collection back from disk
+    delete (globalThis as { memoryVectorCollections?: unknown }).memoryVectorCollections;
+    vi.resetModules();
+    const reloaded = (await import('@/lib/database-memory')).createMemoryVectorStore({ persist: true });
+    expect((await reloaded.checkCollectionData(collectionName)).count).toBe(2);
+  });
+});
@@ -0,0 +1,368 @@
+import { createChunkId, hashContent } from '@/lib/embeddings';
+import { assertEmbeddingCompatible, EmbeddingSpec, LEGACY_EMBEDDING_MODEL } from '@/lib/embedding-providers';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from '@/lib/file-store';
+import { FilterExpression, matchesFilter } from '@/lib/filters';
+import type {
+  CollectionStatus,
+  ContentChunk,
+  IndexedChunk,
+  SearchResult,
+  SimilarityMetric,
+  StoredChunkInput,
+  VectorStore,
+  WebsiteSummary,
+} from '@/lib/vector-store';
+
+// Same shape as a Milvus row, so both stores behave the same for callers
+type StoredChunk = StoredChunkInput;
+
+interface MemoryCollection {
+  embedding: EmbeddingSpec;
+  metric?: SimilarityMetric; // Missing for collections created before cosine similarity
+  chunks: StoredChunk[];
+}
+
+// Keep collections on globalThis so they survive module reloads in development
+const globalForStore = globalThis as unknown as {
+  memoryVectorCollections?: Map<string, MemoryCollection>;
+};
+const collections = globalForStore.memoryVectorCollections ?? (globalForStore.memoryVectorCollections = new Map());
+
+// Cosine similarity clamped to 0-1, matching the similarity the Milvus store reports
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return Math.min(Math.max(dot / Math.sqrt(normA * normB), 0), 1);
+}
+
+// Create an in-memory vector store, optionally persisted as JSON files in the data directory
+export function createMemoryVectorStore(options: { persist: boolean }): VectorStore {
+  const collectionFile = (collectionName: string) => `vector-store/${collectionName}.json`;
+
+  // Open batchWrites calls per collection, and collections with changes saved when they close
+  const openBatches = new Map<string, number>();
+  const unsavedCollections = new Set<string>();
+
+  // Load a collection (from disk on first use when persisting); null if it doesn't exist
+  async function loadCollection(collectionName: string): Promise<MemoryCollection | null> {
+    if (!collections.has(collectionName) && options.persist) {
+      const stored = await readJsonFile<MemoryCollection | StoredChunk[] | null>(collectionFile(collectionName), null);
+      // Chunks written before positions were recorded have no page_url, chunk_index or total_chunks
+      const withPositions = (chunks: StoredChunk[]) =>
+        chunks.map(chunk => ({
+          ...chunk,
+          page_url: chunk.page_url ?? chunk.url,
+          chunk_index: chunk.chunk_index ?? null,
+          total_chunks: chunk.total_chunks ?? null,
+          content_type: chunk.content_type ?? null,
+          attributes: chunk.attributes ?? {},
+        }));
+      if (Array.isArray(stored)) {
+        // Files written before the embedding model was recorded hold a bare chunk array
+        collections.set(collectionName, {
+          embedding: { model: LEGACY_EMBEDDING_MODEL, dimension: stored[0]?.embedding.length || 768 },
+          chunks: withPositions(stored),
+        });
+      } else if (stored) {
+        collections.set(collectionName, { ...stored, chunks: withPositions(stored.chunks) });
+      }
+    }
+    return collections.get(collectionName) || null;
+  }
+
+  async function requireChunks(collectionName: string): Promise<StoredChunk[]> {
+    const collection = await loadCollection(collectionName);
+    if (!collection) {
+      throw new Error(`Collection ${collectionName} does not exist`);
+    }
+    return collection.chunks;
+  }
+
+  // Add or replace chunks by ID and persist
+  async function upsertChunks(collectionName: string, rows: StoredChunk[]) {
+    const collection = await loadCollection(collectionName);
+    if (!collection) {
+      throw new Error(`Collection ${collectionName} does not exist`);
+    }
+    const replacedIds = new Set(rows.map(row => row.id));
+    collection.chunks = [...collection.chunks.filter(chunk => !replacedIds.has(chunk.id)), ...rows];
+    await saveCollection(collectionName);
+  }
+
+  // Persist a collection, or defer it to the end of the open batch; the whole collection is
+  // rewritten, embeddings included
+  async function saveCollection(collectionName: string) {
+    const collection = collections.get(collectionName);
+    if (!options.persist || !collection) {
+      return;
+    }
+    if (openBatches.has(collectionName)) {
+      unsavedCollections.add(collectionName);
+      return;
+    }
+    unsavedCollections.delete(collectionName);
+    await writeJsonFile(collectionFile(collectionName), collection, { compact: true });
+  }
+
+  // Remove chunks matching a predicate and persist; returns how many were removed
+  async function removeChunks(collectionName: string, predicate: (chunk: StoredChunk) => boolean) {
+    const collection = await loadCollection(collectionName);
+    if (!collection) {
+      throw new Error(`Collection ${collectionName} does not exist`);
+    }
+    const removed = collection.chunks.length;
+    collection.chunks = collection.chunks.filter(chunk => !predicate(chunk));
+    await saveCollection(collectionName);
+    return removed - collection.chunks.length;
+  }
+
+  return {
+    name: options.persist ? 'file' : 'memory',
+
+    async initializeDatabase(collectionName: string, embedding: EmbeddingSpec) {
+      const existing = await loadCollection(collectionName);
+      if (existing) {
+        assertEmbeddingCompatible(collectionName, existing.embedding, embedding);
+      } else {
+        console.log(`Creating in-memory collection: ${collectionName}`);
+        collections.set(collectionName, { embedding, metric: 'COSINE', chunks: [] });
+        await saveCollection(collectionName);
+      }
+      return { success: true, collectionName };
+    },
+
+    async getEmbeddingInfo(collectionName: string) {
+      const collection = await loadCollection(collectionName);
+      return collection ? { ...collection.embedding, metric: collection.metric || 'L2' } : null;
+    },
+
+    async storeWebsiteChunks(
+      collectionName: string,
+      url: string,
+      title: string,
+      description: string,
+      contentChunks: ContentChunk[]
+    ) {
+      // Deterministic IDs, so storing a chunk that is already there overwrites it
+      const baseTimestamp = Date.now();
+      // Metadata without a field of its own is kept as JSON attributes
+      const rows = contentChunks.map((chunk, index) => {
+        const { contentHash, chunkIndex, totalChunks, pageUrl, summary, contentType, ...attributes } = chunk.metadata || {};
+        const hash = contentHash || hashContent(chunk.content);
+        const position = chunkIndex ?? index;
+        return {
+          id: createChunkId(collectionName, url, position, hash),
+          embedding: chunk.embedding,
+          url,
+          page_url: pageUrl || url,
+          title: title || 'Untitled',
+          content: chunk.content,
+          crawled_at: baseTimestamp,
+          summary: description || summary || null,
+          content_hash: hash,
+          chunk_index: position,
+          total_chunks: totalChunks ?? contentChunks.length,
+          content_type: contentType || null,
+          attributes,
+        };
+      });
+      await upsertChunks(collectionName, rows);
+
+      console.log(`Successfully stored ${rows.length} chunks for website: ${url}`);
+      return { success: true, chunksStored: rows.length, ids: rows.map(row => row.id) };
+    },
+
+    async insertChunks(collectionName: string, chunksToInsert: StoredChunkInput[]) {
+      await upsertChunks(collectionName, chunksToInsert);
+      return { success: true, chunksStored: chunksToInsert.length };
+    },
+
+    async replaceCollection(targetName: string, sourceName: string) {
+      const source = await loadCollection(sourceName);
+      if (!source) {
+        throw new Error(`Collection ${sourceName} does not exist`);
+      }
+
+      collections.set(targetName, source);
+      collections.delete(sourceName);
+      await saveCollection(targetName);
+      if (options.persist) {
+        await deleteJsonFile(collectionFile(sourceName));
+      }
+      console.log(`Replaced collection ${targetName} with ${sourceName}`);
+      return { success: true };
+    },
+
+    async searchSimilarContent(
+      collectionName: string,
+      queryEmbedding: number[],
+      limit: number = 5,
+      similarityThreshold: number = 0.5,
+      filters?: FilterExpression
+    ): Promise<SearchResult[]> {
+      const chunks = await requireChunks(collectionName);
+
+      const allResults = chunks
+        .filter(chunk => !filters || matchesFilter(filters, chunk))
+        .map(chunk => ({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit)
+        .map(({ chunk, similarity }) => ({
+          content: chunk.content,
+          metadata: {
+            id: chunk.id,
+            url: chunk.url,
+            title: chunk.title,
+            crawled_at: chunk.crawled_at,
+            summary: chunk.summary,
+            page_url: chunk.page_url,
+            chunk_index: chunk.chunk_index,
+            total_chunks: chunk.total_chunks,
+            content_type: chunk.content_type,
+            attributes: chunk.attributes,
+          },
+          url: chunk.url,
+          title: chunk.title,
+          similarity,
+        }));
+
+      // Filter by threshold; nothing is returned when no match passes it (matches the Milvus store)
+      return allResults.filter(item => item.similarity >= similarityThreshold);
+    },
+
+    async getAllWebsites(collectionName: string): Promise<WebsiteSummary[]> {
+      const chunks = await requireChunks(collectionName);
+      const websites = new Map<string, WebsiteSummary>();
+
+      for (const chunk of chunks) {
+        const existing = websites.get(chunk.url);
+        if (!existing) {
+          websites.set(chunk.url, {
+            url: chunk.url,
+            title: chunk.title,
+            crawled_at: chunk.crawled_at,
+            summary: chunk.summary,
+            chunkCount: 1,
+          });
+          continue;
+        }
+
+        existing.chunkCount += 1;
+        // Keep title and summary from the most recent crawl
+        if (chunk.crawled_at > existing.crawled_at) {
+          existing.crawled_at = chunk.crawled_at;
+          existing.title = chunk.title || existing.title;
+          existing.summary = chunk.summary || existing.summary;
+        }
+      }
+
+      return Array.from(websites.values()).sort((a, b) => b.crawled_at - a.crawled_at);
+    },
+
+    async listChunks(collectionName: string): Promise<IndexedChunk[]> {
+      const chunks = await requireChunks(collectionName);
+      return chunks.map(({ embedding, ...chunk }) => chunk);
+    },
+
+    async deleteWebsiteData(collectionName: string, url: string) {
+      const deletedChunks = await removeChunks(collectionName, chunk => chunk.url === url);
+      console.log(`Deleted ${deletedChunks} chunks for website: ${url}`);
+      return { success: true, deletedChunks };
+    },
+
+    async getPageChunkHashes(collectionName: string, url: string) {
+      const chunks = await requireChunks(collectionName);
+      return chunks
+        .filter(chunk => chunk.url === url)
+        .map(chunk => ({
+          id: chunk.id,
+          contentHash: chunk.content_hash,
+          chunkIndex: chunk.chunk_index,
+          totalChunks: chunk.total_chunks,
+        }));
+    },
+
+    async getChunksByIds(collectionName: string, ids: string[]): Promise<IndexedChunk[]> {
+      const chunks = await requireChunks(collectionName);
+      const chunksById = new Map(chunks.map(({ embedding, ...chunk }) => [chunk.id, chunk]));
+      return ids.flatMap(id => chunksById.get(id) || []);
+    },
+
+    async getChunkEmbeddings(collectionName: string, ids: string[]) {
+      const chunks = await requireChunks(collectionName);
+      const idSet = new Set(ids);
+      return new Map(chunks.filter(chunk => idSet.has(chunk.id)).map(chunk => [chunk.id, chunk.embedding]));
+    },
+
+    async getPageChunks(collectionName: string, pageUrl: string, range?: { from: number; to: number }): Promise<IndexedChunk[]> {
+      const chunks = await requireChunks(collectionName);
+      return chunks
+        .filter(chunk => chunk.page_url === pageUrl)
+        .filter(chunk => !range || (chunk.chunk_index !== null && chunk.chunk_index >= range.from && chunk.chunk_index <= range.to))
+        .sort((a, b) => (a.chunk_index ?? 0) - (b.chunk_index ?? 0))
+        .map(({ embedding, ...chunk }) => chunk);
+    },
+
+    async deleteChunksByIds(collectionName: string, ids: string[]) {
+      if (ids.length === 0) {
+        return { success: true, deletedChunks: 0 };
+      }
+      const idSet = new Set(ids);
+      const deletedChunks = await removeChunks(collectionName, chunk => idSet.has(chunk.id));
+      console.log(`Deleted ${deletedChunks} chunks by ID`);
+      return { success: true, deletedChunks };
+    },
+
+    async dropCollection(collectionName: string) {
+      const existed = !!(await loadCollection(collectionName));
+      collections.delete(collectionName);
+      if (options.persist) {
+        await deleteJsonFile(collectionFile(collectionName));
+      }
+      console.log(existed ? `Dropped collection: ${collectionName}` : `Collection ${collectionName} does not exist, nothing to drop`);
+      return { success: true, dropped: existed };
+    },
+
+    async checkCollectionData(collectionName: string): Promise<CollectionStatus> {
+      const collection = await loadCollection(collectionName);
+      if (!collection) {
+        return { hasData: false, count: 0, error: `Collection ${collectionName} does not exist`, sample: null };
+      }
+
+      const { chunks } = collection;
+      const sample = chunks[0];
+      return {
+        hasData: chunks.length > 0,
+        count: chunks.length,
+        sample: sample ? { id: sample.id, url: sample.url, title: sample.title } : null,
+      };
+    },
+
+    async batchWrites<T>(collectionName: string, run: () => Promise<T>): Promise<T> {
+      openBatches.set(collectionName, (openBatches.get(collectionName) || 0) + 1);
+      try {
+        return await run();
+      } finally {
+        // Concurrent batches on one collection (two crawls) save once the last one closes
+        const open = openBatches.get(collectionName)! - 1;
+        if (open > 0) {
+          openBatches.set(collectionName, open);
+        } else {
+          openBatches.delete(collectionName);
+          if (unsavedCollections.has(collectionName)) {
+            await saveCollection(collectionName);
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteChunksByIds, getChunkEmbeddings, getChunksByIds } from '@/lib/database-milvus';
+import { createChunkId } from '@/lib/embeddings';
+
+// Stands in for the Milvus server: one legacy collection with Int64 keys, one with string keys
+const client = vi.hoisted(() => ({
+  use: vi.fn(),
+  describeCollection: vi.fn(async ({ collection_name }: { collection_name: string }) => ({
+    schema: {
+      fields: [{ name: 'id', is_primary_key: true, data_type: collection_name === 'legacy_kb' ? 'Int64' : 'VarChar' }],
+    },
+  })),
+  query: vi.fn(),
+  delete: vi.fn(),
+  flush: vi.fn(),
+}));
+
+vi.mock('@zilliz/milvus2-sdk-node', async importOriginal => ({
+  ...(await importOriginal<typeof import('@zilliz/milvus2-sdk-node')>()),
+  MilvusClient: class {
+    constructor() {
+      return client;
+    }
+  },
+}));
+
+beforeEach(() => {
+  client.query.mockReset();
+  client.delete.mockReset();
+});
+
+describe('legacy Int64 collections', () => {
+  const storedId = createChunkId('legacy_kb', 'https://example.com/', 0, 'a');
+  const missingId = createChunkId('legacy_kb', 'https://example.com/', 1, 'b');
+  const storedKey = parseInt(storedId.substring(0, 13), 16);
+
+  it('finds chunks by their hex IDs through the numeric primary keys', async () => {
+    // Milvus returns Int64 keys as strings
+    client.query.mockResolvedValue({ data: [{ id: String(storedKey), url: 'https://example.com/', content: 'Hello' }] });
+
+    const chunks = await getChunksByIds('legacy_kb', [missingId, storedId]);
+
+    expect(client.query.mock.calls[0][0].expr).toBe(`id in [${parseInt(missingId.substring(0, 13), 16)}, ${storedKey}]`);
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Hello']);
+  });
+
+  it('returns stored embeddings under the requested IDs', async () => {
+    client.query.mockResolvedValue({ data: [{ id: String(storedKey), embedding: [0.6, 0.8] }] });
+
+    const embeddings = await getChunkEmbeddings('legacy_kb', [storedId, missingId]);
+
+    expect(Array.from(embeddings)).toEqual([[storedId, [0.6, 0.8]]]);
+  });
+});
+
+describe('deleteChunksByIds', () => {
+  it('reports the number of rows Milvus deleted', async () => {
+    client.delete.mockResolvedValueOnce({ delete_cnt: '2' });
+    expect(await deleteChunksByIds('current_kb', ['a', 'b', 'c'])).toEqual({ success: true, deletedChunks: 2 });
+
+    client.delete.mockResolvedValueOnce({ delete_cnt: '0' });
+    expect(await deleteChunksByIds('current_kb', ['a'])).toEqual({ success: true, deletedChunks: 0 });
+
+    client.delete.mockResolvedValueOnce({});
+    expect(await deleteChunksByIds('current_kb', ['a'])).toEqual({ success: true, deletedChunks: 0 });
+  });
+});
@@ -1,20 +1,60 @@
 import { MilvusClient, DataType, IndexType, MetricType } from '@zilliz/milvus2-sdk-node';
+import { createChunkId, hashContent } from '@/lib/embeddings';
+import { and, eq, FilterExpression, inList, range, toMilvusExpression } from '@/lib/filters';
+import { assertEmbeddingCompatible, EmbeddingSpec, LEGACY_EMBEDDING_MODEL } from '@/lib/embedding-providers';
+import type {
+  CollectionEmbeddingInfo,
+  CollectionStatus,
+  ContentChunk,
+  IndexedChunk,
+  SearchResult,
+  SimilarityMetric,
+  StoredChunkHash,
+  StoredChunkInput,
+  WebsiteSummary,
+} from '@/lib/vector-store';
 
 const DATABASE_NAME = 'web_whisper';
-const COLLECTION_NAME = 'ragProj';
-const EMBEDDING_DIMENSION = 768; // Google Gemini text-embedding-004
 
-// Initialize Milvus client
-const client = new MilvusClient({
-  address: `${process.env.MILVUS_HOST || 'localhost'}:${process.env.MILVUS_PORT || '19530'}`,
-});
+// Collection property recording which embedding model produced the stored vectors
+const EMBEDDING_MODEL_PROPERTY = 'embedding_model';
 
-// Define schema for the collection
-const collectionSchema = [
+// Metric for new collections; vectors are normalized, so cosine gives a real 0-1 similarity.
+// Collections created before this used L2 and keep working until they are re-indexed.
+const DEFAULT_METRIC: SimilarityMetric = 'COSINE';
+
+// Index metric per collection, cached since it never changes for a given collection
+const collectionMetrics = new Map<string, SimilarityMetric>();
+
+// Whether a collection's primary key is numeric, cached like the metric. Collections created
+// before deterministic chunk IDs use Int64 keys and keep working until they are re-indexed.
+const legacyIdCollections = new Map<string, boolean>();
+
+// Fields returned for a chunk (everything except the embedding)
+const CHUNK_OUTPUT_FIELDS = [
+  'id', 'url', 'page_url', 'title', 'content', 'crawled_at', 'summary', 'content_hash', 'chunk_index', 'total_chunks',
+  'content_type', 'attributes',
+];
+
+// Milvus client, created on first use so other vector stores never open a connection
+let milvusClient: MilvusClient | null = null;
+
+function getClient(): MilvusClient {
+  if (!milvusClient) {
+    milvusClient = new MilvusClient({
+      address: `${process.env.MILVUS_HOST || 'localhost'}:${process.env.MILVUS_PORT || '19530'}`,
+    });
+  }
+  return milvusClient;
+}
+
+// Define schema for the collection; the vector size comes from the embedding provider
+const getCollectionSchema = (dimension: number) => [
   {
     name: 'id',
-    description: 'Primary key',
-    data_type: DataType.Int64,
+    description: 'Primary key, derived from collection, URL, chunk index and content hash',
+    data_type: DataType.VarChar,
+    max_length: 64,
     is_primary_key: true,
     autoID: false, // We'll generate IDs ourselves
   },
@@ -22,7 +62,7 @@ const collectionSchema = [
     name: 'embedding',
     description: 'Vector embedding of content chunk',
     data_type: DataType.FloatVector,
-    dim: EMBEDDING_DIMENSION,
+    dim: dimension,
   },
   {
     name: 'url',
@@ -53,29 +93,169 @@ const collectionSchema = [
     data_type: DataType.VarChar,
     max_length: 2000,
   },
+  {
+    name: 'content_hash',
+    description: 'SHA-256 of the chunk content, used for incremental re-crawls',
+    data_type: DataType.VarChar,
+    max_length: 64,
+    nullable: true,
+  },
+  {
+    name: 'page_url',
+    description: 'Page the chunk text appears on',
+    data_type: DataType.VarChar,
+    max_length: 2048,
+    nullable: true,
+  },
+  {
+    name: 'chunk_index',
+    description: '0-based position of the chunk within its page',
+    data_type: DataType.Int64,
+    nullable: true,
+  },
+  {
+    name: 'total_chunks',
+    description: 'Number of chunks the page was split into',
+    data_type: DataType.Int64,
+    nullable: true,
+  },
+  {
+    name: 'content_type',
+    description: 'MIME type of the source',
+    data_type: DataType.VarChar,
+    max_length: 128,
+    nullable: true,
+  },
+  {
+    name: 'attributes',
+    description: 'Arbitrary JSON metadata (key points, processing details, ...)',
+    data_type: DataType.JSON,
+    nullable: true,
+  },
 ];
 
+// Add nullable fields introduced after a collection was created, so older collections keep working
+async function ensureSchemaFields(collectionName: string, dimension: number) {
+  const description = await getClient().describeCollection({ collection_name: collectionName });
+  const existingFields = new Set((description.schema?.fields || []).map((field: any) => field.name));
+  const missingFields = getCollectionSchema(dimension).filter(field => field.nullable && !existingFields.has(field.name));
+
+  for (const field of missingFields) {
+    console.log(`Adding missing field ${field.name} to collection ${collectionName}`);
+    await getClient().addCollectionField({ collection_name: collectionName, field });
+  }
+}
+
+// Whether a collection still uses the legacy Int64 primary key
+async function hasLegacyIds(collectionName: string): Promise<boolean> {
+  const cached = legacyIdCollections.get(collectionName);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const description = await getClient().describeCollection({ collection_name: collectionName });
+  const primaryKey = (description.schema?.fields || []).find((field: any) => field.is_primary_key);
+  const legacy = primaryKey?.data_type === 'Int64';
+  legacyIdCollections.set(collectionName, legacy);
+  return legacy;
+}
+
+// Convert chunk IDs to primary key values: strings, or for legacy Int64 collections a number
+// taken from the first 52 bits of the hex ID (deterministic, and safe as a JS number)
+async function toPrimaryKeys(collectionName: string, ids: string[]): Promise<Array<string | number>> {
+  if (!(await hasLegacyIds(collectionName))) {
+    return ids;
+  }
+  return ids.map(id => (/^\d+$/.test(id) ? Number(id) : parseInt(id.substring(0, 13), 16)));
+}
+
+// Map a Milvus row to a chunk; legacy rows have no page_url or position
+function toIndexedChunk(item: any): IndexedChunk {
+  return {
+    id: String(item.id),
+    url: item.url || '',
+    page_url: item.page_url || item.url || '',
+    title: item.title || 'Untitled',
+    content: item.content || '',
+    crawled_at: Number(item.crawled_at) || 0,
+    summary: item.summary || null,
+    content_hash: item.content_hash || null,
+    chunk_index: item.chunk_index === null || item.chunk_index === undefined ? null : Number(item.chunk_index),
+    total_chunks: item.total_chunks === null || item.total_chunks === undefined ? null : Number(item.total_chunks),
+    content_type: item.content_type || null,
+    attributes: item.attributes && typeof item.attributes === 'object' ? item.attributes : {},
+  };
+}
+
 // Helper function to ensure we're using the correct database
 async function ensureDatabaseContext() {
   try {
-    await client.use({ db_name: DATABASE_NAME });
+    await getClient().use({ db_name: DATABASE_NAME });
   } catch (error) {
     console.error('Error switching to database:', error);
     throw error;
   }
 }
 
-// Initialize database - create database, collection and index if they don't exist
-export async function initializeDatabase() {
+// Get the embedding model and dimension a collection was built with; null if it doesn't exist
+export async function getEmbeddingInfo(collectionName: string): Promise<CollectionEmbeddingInfo | null> {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const exists = await getClient().hasCollection({ collection_name: collectionName });
+    if (!exists.value) {
+      return null;
+    }
+
+    const description = await getClient().describeCollection({ collection_name: collectionName });
+    const embeddingField: any = (description.schema?.fields || []).find((field: any) => field.name === 'embedding');
+    const modelProperty = (description.properties || []).find(property => property.key === EMBEDDING_MODEL_PROPERTY);
+
+    return {
+      model: modelProperty ? String(modelProperty.value) : LEGACY_EMBEDDING_MODEL,
+      dimension: Number(embeddingField?.dim) || 0,
+      metric: await getCollectionMetric(collectionName),
+    };
+  } catch (error) {
+    console.error('Error reading collection embedding info from Milvus:', error);
+    throw error;
+  }
+}
+
+// Read the metric of a collection's vector index
+async function getCollectionMetric(collectionName: string): Promise<SimilarityMetric> {
+  const cached = collectionMetrics.get(collectionName);
+  if (cached) {
+    return cached;
+  }
+
+  const index = await getClient().describeIndex({ collection_name: collectionName, field_name: 'embedding' });
+  const metricParam = (index.index_descriptions?.[0]?.params || []).find(param => param.key === 'metric_type');
+  const metric: SimilarityMetric = metricParam?.value === 'COSINE' || metricParam?.value === 'IP' ? 'COSINE' : 'L2';
+  collectionMetrics.set(collectionName, metric);
+  return metric;
+}
+
+// Convert a raw Milvus score to a 0-1 similarity. COSINE returns the cosine directly; L2 returns
+// the squared distance, which for unit vectors is 2 - 2·cos.
+function toSimilarity(metric: SimilarityMetric, score: number): number {
+  const cosine = metric === 'COSINE' ? score : 1 - score / 2;
+  return Math.min(Math.max(cosine, 0), 1);
+}
+
+// Initialize database - create database, collection and index if they don't exist.
+// Existing collections must have been built with the same embedding model and dimension.
+export async function initializeDatabase(collectionName: string, embedding: EmbeddingSpec) {
   try {
     // Check if database exists and create if needed
     try {
-      const databases = await client.listDatabases();
+      const databases = await getClient().listDatabases();
       const dbExists = (databases.db_names as string[])?.includes(DATABASE_NAME) || false;
       
       if (!dbExists) {
         console.log(`Creating Milvus database: ${DATABASE_NAME}`);
-        await client.createDatabase({ db_name: DATABASE_NAME });
+        await getClient().createDatabase({ db_name: DATABASE_NAME });
         console.log(`Database ${DATABASE_NAME} created successfully`);
       } else {
         console.log(`Using existing database: ${DATABASE_NAME}`);
@@ -84,7 +264,7 @@ export async function initializeDatabase() {
       // If listDatabases fails, try to create the database anyway
       if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
         console.log(`Creating Milvus database: ${DATABASE_NAME}`);
-        await client.createDatabase({ db_name: DATABASE_NAME });
+        await getClient().createDatabase({ db_name: DATABASE_NAME });
         console.log(`Database ${DATABASE_NAME} created successfully`);
       } else {
         throw error;
@@ -92,33 +272,34 @@ export async function initializeDatabase() {
     }
 
     // Switch to the database
-    await client.use({ db_name: DATABASE_NAME });
+    await getClient().use({ db_name: DATABASE_NAME });
     console.log(`Switched to database: ${DATABASE_NAME}`);
 
     // Check if collection exists
-    const collections = await client.showCollections();
+    const collections = await getClient().showCollections();
     const collectionNames = (collections.data as any)?.map((col: any) => col.name) || [];
-    const collectionExists = collectionNames.includes(COLLECTION_NAME);
+    const collectionExists = collectionNames.includes(collectionName);
 
     if (!collectionExists) {
-      console.log(`Creating Milvus collection: ${COLLECTION_NAME}`);
+      console.log(`Creating Milvus collection: ${collectionName}`);
       
-      // Create collection with schema
-      await client.createCollection({
-        collection_name: COLLECTION_NAME,
-        fields: collectionSchema,
+      // Create collection with schema, tagged with the embedding model
+      await getClient().createCollection({
+        collection_name: collectionName,
+        fields: getCollectionSchema(embedding.dimension),
+        properties: { [EMBEDDING_MODEL_PROPERTY]: embedding.model },
       });
 
-      console.log(`Collection ${COLLECTION_NAME} created successfully`);
+      console.log(`Collection ${collectionName} created successfully`);
 
       // Create HNSW index on embedding field
-      console.log('Creating HNSW index on embedding field...');
-      await client.createIndex({
-        collection_name: COLLECTION_NAME,
+      console.log(`Creating HNSW index (${DEFAULT_METRIC}) on embedding field...`);
+      await getClient().createIndex({
+        collection_name: collectionName,
         field_name: 'embedding',
         index_name: 'hnsw_index',
         index_type: IndexType.HNSW,
-        metric_type: MetricType.L2,
+        metric_type: MetricType[DEFAULT_METRIC],
         params: {
           M: 64,
           efConstruction: 200,
@@ -126,24 +307,42 @@ export async function initializeDatabase() {
       });
 
       console.log('HNSW index created successfully');
+      collectionMetrics.set(collectionName, DEFAULT_METRIC);
+      legacyIdCollections.set(collectionName, false);
 
       // Load collection into memory for search operations
-      await client.loadCollectionSync({ collection_name: COLLECTION_NAME });
+      await getClient().loadCollectionSync({ collection_name: collectionName });
       console.log('Collection loaded into memory');
     } else {
-      console.log(`Using existing collection: ${COLLECTION_NAME}`);
+      console.log(`Using existing collection: ${collectionName}`);
+
+      const existingEmbedding = await getEmbeddingInfo(collectionName);
+      if (existingEmbedding) {
+        assertEmbeddingCompatible(collectionName, existingEmbedding, embedding);
+      }
+
+      // Tag legacy collections so the model is recorded explicitly from now on
+      const description = await getClient().describeCollection({ collection_name: collectionName });
+      if (!(description.properties || []).some(property => property.key === EMBEDDING_MODEL_PROPERTY)) {
+        await getClient().alterCollectionProperties({
+          collection_name: collectionName,
+          properties: { [EMBEDDING_MODEL_PROPERTY]: embedding.model },
+        });
+      }
+
+      await ensureSchemaFields(collectionName, embedding.dimension);
       
       // Ensure collection is loaded - check using showCollections
-      const collectionStatus = await client.showCollections({ collection_names: [COLLECTION_NAME] });
+      const collectionStatus = await getClient().showCollections({ collection_names: [collectionName] });
       const isLoaded = (collectionStatus.data as any)?.[0]?.loaded || false;
       if (!isLoaded) {
-        await client.loadCollectionSync({ collection_name: COLLECTION_NAME });
+        await getClient().loadCollectionSync({ collection_name: collectionName });
         console.log('Collection loaded into memory');
       }
     }
 
     console.log('Milvus database initialized successfully');
-    return { success: true, databaseName: DATABASE_NAME, collectionName: COLLECTION_NAME };
+    return { success: true, databaseName: DATABASE_NAME, collectionName: collectionName };
   } catch (error) {
     console.error('Error initializing Milvus database:', error);
     throw error;
@@ -152,101 +351,156 @@ export async function initializeDatabase() {
 
 // Store website chunks in Milvus
 export async function storeWebsiteChunks(
+  collectionName: string,
   url: string,
   title: string,
   description: string,
-  contentChunks: Array<{ content: string; embedding: number[]; metadata?: any }>
+  contentChunks: ContentChunk[]
 ) {
   try {
     // Ensure we're using the correct database
     await ensureDatabaseContext();
     
-    // Generate unique IDs for each chunk (timestamp-based)
+    // Deterministic IDs, so storing a chunk that is already there overwrites it
     const baseTimestamp = Date.now();
-    const ids = contentChunks.map((_, index) => baseTimestamp + index);
+    const chunkIds = contentChunks.map((chunk, index) => createChunkId(
+      collectionName,
+      url,
+      chunk.metadata?.chunkIndex ?? index,
+      chunk.metadata?.contentHash || hashContent(chunk.content)
+    ));
+    const ids = await toPrimaryKeys(collectionName, chunkIds);
     
-    // Prepare data for insertion
-    const entities = contentChunks.map((chunk, index) => ({
-      id: ids[index],
-      embedding: chunk.embedding,
-      url: url,
-      title: title || 'Untitled',
-      content: chunk.content,
-      crawled_at: baseTimestamp,
-      summary: description || chunk.metadata?.summary || null,
-    }));
+    // Prepare data for upsertion; metadata without a column of its own is kept as JSON attributes
+    const entities = contentChunks.map((chunk, index) => {
+      const { contentHash, chunkIndex, totalChunks, pageUrl, summary, contentType, ...attributes } = chunk.metadata || {};
+      return {
+        id: ids[index],
+        embedding: chunk.embedding,
+        url: url,
+        page_url: pageUrl || url,
+        title: title || 'Untitled',
+        content: chunk.content,
+        crawled_at: baseTimestamp,
+        summary: description || summary || null,
+        content_hash: contentHash || hashContent(chunk.content),
+        chunk_index: chunkIndex ?? index,
+        total_chunks: totalChunks ?? contentChunks.length,
+        content_type: contentType || null,
+        attributes,
+      };
+    });
 
-    // Insert data in batches (Milvus recommends batches of 100-1000)
+    // Upsert data in batches (Milvus recommends batches of 100-1000)
     const batchSize = 100;
     let insertedCount = 0;
 
     for (let i = 0; i < entities.length; i += batchSize) {
       const batch = entities.slice(i, i + batchSize);
       
-      await client.insert({
-        collection_name: COLLECTION_NAME,
+      await getClient().upsert({
+        collection_name: collectionName,
         fields_data: batch,
       });
       
       insertedCount += batch.length;
-      console.log(`Inserted batch: ${insertedCount}/${entities.length} chunks`);
+      console.log(`Upserted batch: ${insertedCount}/${entities.length} chunks`);
     }
 
     // Flush to ensure data is written
-    await client.flush({ collection_names: [COLLECTION_NAME] });
+    await getClient().flush({ collection_names: [collectionName] });
 
     console.log(`Successfully stored ${insertedCount} chunks for website: ${url}`);
-    return { success: true, chunksStored: insertedCount };
+    return { success: true, chunksStored: insertedCount, ids: ids.map(String) };
   } catch (error) {
     console.error('Error storing website chunks in Milvus:', error);
     throw error;
   }
 }
 
+// Insert fully-formed chunks, keeping their IDs and metadata (used when rebuilding a collection)
+export async function insertChunks(collectionName: string, chunks: StoredChunkInput[]) {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const ids = await toPrimaryKeys(collectionName, chunks.map(chunk => chunk.id));
+    const rows = chunks.map((chunk, index) => ({ ...chunk, id: ids[index] }));
+
+    const batchSize = 100;
+    for (let i = 0; i < rows.length; i += batchSize) {
+      await getClient().insert({
+        collection_name: collectionName,
+        fields_data: rows.slice(i, i + batchSize),
+      });
+    }
+
+    await getClient().flush({ collection_names: [collectionName] });
+    return { success: true, chunksStored: chunks.length };
+  } catch (error) {
+    console.error('Error inserting chunks into Milvus:', error);
+    throw error;
+  }
+}
+
+// Replace one collection with another: drop the target, then rename the source to take its place
+export async function replaceCollection(targetName: string, sourceName: string) {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const exists = await getClient().hasCollection({ collection_name: targetName });
+    if (exists.value) {
+      await getClient().dropCollection({ collection_name: targetName });
+    }
+    await getClient().renameCollection({ collection_name: sourceName, new_collection_name: targetName });
+
+    collectionMetrics.delete(targetName);
+    collectionMetrics.delete(sourceName);
+    legacyIdCollections.delete(targetName);
+    legacyIdCollections.delete(sourceName);
+    console.log(`Replaced collection ${targetName} with ${sourceName}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error replacing Milvus collection:', error);
+    throw error;
+  }
+}
+
 // Search for similar content using vector similarity
 export async function searchSimilarContent(
+  collectionName: string,
   queryEmbedding: number[],
   limit: number = 5,
   similarityThreshold: number = 0.5,
-  filters?: { url?: string; title?: string }
-) {
+  filters?: FilterExpression
+): Promise<SearchResult[]> {
   try {
     // Ensure we're using the correct database
     await ensureDatabaseContext();
     
-    // Validate query embedding
-    if (!Array.isArray(queryEmbedding) || queryEmbedding.length !== EMBEDDING_DIMENSION) {
-      throw new Error(`Invalid query embedding: must be an array of ${EMBEDDING_DIMENSION} numbers`);
+    // Validate query embedding (dimension compatibility is checked against the collection by callers)
+    if (!Array.isArray(queryEmbedding) || queryEmbedding.length === 0) {
+      throw new Error('Invalid query embedding: must be a non-empty array of numbers');
     }
 
-    console.log(`Searching with embedding dimension: ${queryEmbedding.length}`);
+    const metric = await getCollectionMetric(collectionName);
+    console.log(`Searching with embedding dimension: ${queryEmbedding.length} (${metric})`);
 
     // Build filter expression if filters are provided
-    let expr: string | undefined;
-    if (filters) {
-      const filterParts: string[] = [];
-      if (filters.url) {
-        filterParts.push(`url == "${filters.url}"`);
-      }
-      if (filters.title) {
-        filterParts.push(`title == "${filters.title}"`);
-      }
-      if (filterParts.length > 0) {
-        expr = filterParts.join(' && ');
-      }
-    }
+    const expr = filters ? toMilvusExpression(filters) : undefined;
 
     // Perform vector search
     const searchParams = {
-      collection_name: COLLECTION_NAME,
+      collection_name: collectionName,
       data: [queryEmbedding],
       limit: limit,
       params: { ef: 100 }, // HNSW search parameter
-      output_fields: ['id', 'url', 'title', 'content', 'crawled_at', 'summary'],
+      output_fields: CHUNK_OUTPUT_FIELDS,
       expr: expr, // Optional filter expression
     };
 
-    const results = await client.search(searchParams);
+    const results = await getClient().search(searchParams);
 
     // Handle different possible result structures
     let resultsArray: any[] = [];
@@ -275,50 +529,44 @@ export async function searchSimilarContent(
     // Process results
     const allResults = resultsArray.map((result: any, index: number) => {
       // Handle different result structures
-      const distance = result.distance || result.score || 1;
-      const similarity = 1 - distance; // Convert L2 distance to similarity (normalized)
+      const rawScore = Number(result.score ?? result.distance ?? 0);
+      const similarity = toSimilarity(metric, rawScore);
 
       // Try different possible field access patterns
       const entity = result.entity || result.output_fields || result;
-      const id = result.id || entity?.id;
-      const content = entity?.content || result.content || '';
-      const url = entity?.url || result.url || '';
-      const title = entity?.title || result.title || '';
-      const crawled_at = entity?.crawled_at || result.crawled_at || null;
-      const summary = entity?.summary || result.summary || null;
+      const chunk = toIndexedChunk({ ...result, ...entity, id: result.id || entity?.id });
 
       return {
-        content: content,
+        content: chunk.content,
         metadata: {
-          id: id,
-          url: url,
-          title: title,
-          crawled_at: crawled_at,
-          summary: summary,
+          id: chunk.id,
+          url: chunk.url,
+          title: chunk.title,
+          crawled_at: chunk.crawled_at || null,
+          summary: chunk.summary,
+          page_url: chunk.page_url,
+          chunk_index: chunk.chunk_index,
+          total_chunks: chunk.total_chunks,
+          content_type: chunk.content_type,
+          attributes: chunk.attributes,
         },
-        url: url,
-        title: title,
+        url: chunk.url,
+        title: chunk.title,
         similarity: similarity,
-        distance: distance,
+        rawScore: rawScore,
       };
     });
 
     console.log(`Found ${allResults.length} total results`);
     allResults.forEach((result: any, idx: number) => {
-      console.log(`  Result ${idx + 1}: similarity=${result.similarity.toFixed(3)}, distance=${result.distance.toFixed(3)}, url=${result.url}`);
+      console.log(`  Result ${idx + 1}: similarity=${result.similarity.toFixed(3)}, ${metric === 'COSINE' ? 'cosine' : 'distance'}=${result.rawScore.toFixed(3)}, url=${result.url}`);
     });
 
-    // Filter by threshold
-    let filteredResults = allResults.filter((item: any) => item.similarity >= similarityThreshold);
+    // Filter by threshold; matches below it are left out rather than padding the context
+    const filteredResults = allResults.filter((item: any) => item.similarity >= similarityThreshold);
 
     console.log(`After filtering (threshold: ${similarityThreshold}): ${filteredResults.length} results`);
 
-    // If no results after filtering, return top results anyway
-    if (filteredResults.length === 0 && allResults.length > 0) {
-      console.log(`No results passed threshold ${similarityThreshold}, but returning top ${Math.min(3, allResults.length)} results anyway`);
-      filteredResults = allResults.slice(0, Math.min(3, allResults.length));
-    }
-
     return filteredResults.map((r: any) => ({
       content: r.content,
       metadata: r.metadata,
@@ -332,56 +580,97 @@ export async function searchSimilarContent(
   }
 }
 
-// Get all unique websites from the collection
-export async function getAllWebsites() {
+// Get all unique websites from the collection, with chunk counts and summaries
+export async function getAllWebsites(collectionName: string): Promise<WebsiteSummary[]> {
   try {
     // Ensure we're using the correct database
     await ensureDatabaseContext();
     
     // Query all documents to extract unique URLs
-    const results = await client.query({
-      collection_name: COLLECTION_NAME,
+    const results = await getClient().query({
+      collection_name: collectionName,
       expr: '', // Empty expression to get all
-      output_fields: ['url', 'title', 'crawled_at'],
-      limit: 10000, // Adjust based on expected number of chunks
+      output_fields: ['url', 'title', 'crawled_at', 'summary'],
+      limit: 16384, // Milvus query window limit
     });
 
     // Group by URL to get unique websites
-    const websites = new Map<string, { url: string; title: string; crawled_at: number }>();
+    const websites = new Map<string, WebsiteSummary>();
     
     if (results.data && results.data.length > 0) {
       results.data.forEach((item: any) => {
-        if (item.url && !websites.has(item.url)) {
+        if (!item.url) return;
+
+        const crawledAt = Number(item.crawled_at) || 0;
+        const existing = websites.get(item.url);
+        if (!existing) {
           websites.set(item.url, {
             url: item.url,
             title: item.title || 'Untitled',
-            crawled_at: item.crawled_at || 0,
+            crawled_at: crawledAt,
+            summary: item.summary || null,
+            chunkCount: 1,
           });
+          return;
+        }
+
+        existing.chunkCount += 1;
+        // Keep title and summary from the most recent crawl
+        if (crawledAt > existing.crawled_at) {
+          existing.crawled_at = crawledAt;
+          existing.title = item.title || existing.title;
+          existing.summary = item.summary || existing.summary;
         }
       });
     }
 
-    return Array.from(websites.values());
+    return Array.from(websites.values()).sort((a, b) => b.crawled_at - a.crawled_at);
   } catch (error) {
     console.error('Error getting websites from Milvus:', error);
     throw error;
   }
 }
 
+// Get every chunk's text and metadata (without embeddings), e.g. for building a keyword index
+export async function listChunks(collectionName: string): Promise<IndexedChunk[]> {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    // Iterate in batches so collections larger than the query window are read completely
+    const iterator = await getClient().queryIterator({
+      collection_name: collectionName,
+      expr: '', // Empty expression to get all
+      output_fields: CHUNK_OUTPUT_FIELDS,
+      batchSize: 1000,
+    });
+
+    const rows: any[] = [];
+    for await (const batch of iterator) {
+      rows.push(...batch);
+    }
+
+    return rows.map(toIndexedChunk);
+  } catch (error) {
+    console.error('Error listing chunks from Milvus:', error);
+    throw error;
+  }
+}
+
 // Delete all chunks for a specific URL
-export async function deleteWebsiteData(url: string) {
+export async function deleteWebsiteData(collectionName: string, url: string) {
   try {
     // Ensure we're using the correct database
     await ensureDatabaseContext();
     
     // Delete using filter expression
-    const deleteResult = await client.delete({
-      collection_name: COLLECTION_NAME,
-      filter: `url == "${url}"`,
+    const deleteResult = await getClient().delete({
+      collection_name: collectionName,
+      filter: toMilvusExpression(eq('url', url)),
     } as any); // Type assertion for filter parameter
 
     // Flush to ensure deletion is persisted
-    await client.flush({ collection_names: [COLLECTION_NAME] });
+    await getClient().flush({ collection_names: [collectionName] });
 
     const deletedCount = (deleteResult as any).delete_cnt || 0;
     console.log(`Deleted ${deletedCount} chunks for website: ${url}`);
@@ -393,21 +682,180 @@ export async function deleteWebsiteData(url: string) {
   }
 }
 
+// Get the ID and content hash of every stored chunk for a page
+export async function getPageChunkHashes(collectionName: string, url: string): Promise<StoredChunkHash[]> {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const results = await getClient().query({
+      collection_name: collectionName,
+      expr: toMilvusExpression(eq('url', url)),
+      output_fields: ['id', 'content_hash', 'chunk_index', 'total_chunks'],
+      limit: 16384, // Milvus query window limit
+    });
+
+    return (results.data || []).map((item: any) => {
+      const chunk = toIndexedChunk(item);
+      return { id: chunk.id, contentHash: chunk.content_hash, chunkIndex: chunk.chunk_index, totalChunks: chunk.total_chunks };
+    });
+  } catch (error) {
+    console.error('Error getting page chunk hashes from Milvus:', error);
+    throw error;
+  }
+}
+
+// Delete specific chunks by primary key
+export async function deleteChunksByIds(collectionName: string, ids: string[]) {
+  try {
+    if (ids.length === 0) {
+      return { success: true, deletedChunks: 0 };
+    }
+
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const deleteResult = await getClient().delete({
+      collection_name: collectionName,
+      filter: toMilvusExpression(inList('id', await toPrimaryKeys(collectionName, ids))),
+    } as any); // Type assertion for filter parameter
+
+    // Flush to ensure deletion is persisted
+    await getClient().flush({ collection_names: [collectionName] });
+
+    // delete_cnt is an Int64 sent as a string; a missing count means nothing was deleted
+    const deletedCount = Number(deleteResult.delete_cnt ?? 0);
+    console.log(`Deleted ${deletedCount} chunks by ID`);
+
+    return { success: true, deletedChunks: deletedCount };
+  } catch (error) {
+    console.error('Error deleting chunks from Milvus:', error);
+    throw error;
+  }
+}
+
+// Get chunks by ID, in the order requested; unknown IDs are skipped
+export async function getChunksByIds(collectionName: string, ids: string[]): Promise<IndexedChunk[]> {
+  try {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const primaryKeys = await toPrimaryKeys(collectionName, ids);
+    const results = await getClient().query({
+      collection_name: collectionName,
+      expr: toMilvusExpression(inList('id', primaryKeys)),
+      output_fields: CHUNK_OUTPUT_FIELDS,
+    });
+
+    // Rows come back under their primary key, which for legacy collections is not the requested ID
+    const chunksByKey = new Map((results.data || []).map((item: any) => [String(item.id), toIndexedChunk(item)]));
+    return ids.flatMap((_id, index) => chunksByKey.get(String(primaryKeys[index])) || []);
+  } catch (error) {
+    console.error('Error getting chunks by ID from Milvus:', error);
+    throw error;
+  }
+}
+
+// Get the stored embeddings of chunks, keyed by chunk ID (used to avoid re-embedding moved chunks)
+export async function getChunkEmbeddings(collectionName: string, ids: string[]): Promise<Map<string, number[]>> {
+  try {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const primaryKeys = await toPrimaryKeys(collectionName, ids);
+    const results = await getClient().query({
+      collection_name: collectionName,
+      expr: toMilvusExpression(inList('id', primaryKeys)),
+      output_fields: ['id', 'embedding'],
+    });
+
+    // Key by the requested ID, as getChunksByIds does
+    const embeddingsByKey = new Map((results.data || []).map((item: any) => [String(item.id), item.embedding as number[]]));
+    return new Map(ids.flatMap((id, index) => {
+      const embedding = embeddingsByKey.get(String(primaryKeys[index]));
+      return embedding ? [[id, embedding] as const] : [];
+    }));
+  } catch (error) {
+    console.error('Error getting chunk embeddings from Milvus:', error);
+    throw error;
+  }
+}
+
+// Get a page's chunks in order, optionally only those with chunk_index in [range.from, range.to]
+export async function getPageChunks(
+  collectionName: string,
+  pageUrl: string,
+  chunkRange?: { from: number; to: number }
+): Promise<IndexedChunk[]> {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const filter = chunkRange
+      ? and(eq('page_url', pageUrl), range('chunk_index', { gte: chunkRange.from, lte: chunkRange.to }))
+      : eq('page_url', pageUrl);
+    const results = await getClient().query({
+      collection_name: collectionName,
+      expr: toMilvusExpression(filter),
+      output_fields: CHUNK_OUTPUT_FIELDS,
+      limit: 16384, // Milvus query window limit
+    });
+
+    return (results.data || [])
+      .map(toIndexedChunk)
+      .sort((a, b) => (a.chunk_index ?? 0) - (b.chunk_index ?? 0));
+  } catch (error) {
+    console.error('Error getting page chunks from Milvus:', error);
+    throw error;
+  }
+}
+
+// Drop a collection and all of its data (used when deleting a knowledge base)
+export async function dropCollection(collectionName: string) {
+  try {
+    // Ensure we're using the correct database
+    await ensureDatabaseContext();
+
+    const exists = await getClient().hasCollection({ collection_name: collectionName });
+    if (!exists.value) {
+      console.log(`Collection ${collectionName} does not exist, nothing to drop`);
+      return { success: true, dropped: false };
+    }
+
+    await getClient().dropCollection({ collection_name: collectionName });
+    collectionMetrics.delete(collectionName);
+    legacyIdCollections.delete(collectionName);
+    console.log(`Dropped collection: ${collectionName}`);
+    return { success: true, dropped: true };
+  } catch (error) {
+    console.error('Error dropping Milvus collection:', error);
+    throw error;
+  }
+}
+
 // Check if collection has data
-export async function checkCollectionData() {
+export async function checkCollectionData(collectionName: string): Promise<CollectionStatus> {
   try {
     // Ensure we're using the correct database
     await ensureDatabaseContext();
     
     // Ensure collection is loaded
     try {
-      const collectionStatus = await client.showCollections({ 
-        collection_names: [COLLECTION_NAME] 
+      const collectionStatus = await getClient().showCollections({ 
+        collection_names: [collectionName] 
       });
       const isLoaded = (collectionStatus.data as any)?.[0]?.loaded || false;
       if (!isLoaded) {
         console.log('Collection not loaded, loading now...');
-        await client.loadCollectionSync({ collection_name: COLLECTION_NAME });
+        await getClient().loadCollectionSync({ collection_name: collectionName });
         console.log('Collection loaded successfully');
       }
     } catch (loadError) {
@@ -416,8 +864,8 @@ export async function checkCollectionData() {
     }
     
     // Try to query for a single document - more reliable than statistics
-    const sample = await client.query({
-      collection_name: COLLECTION_NAME,
+    const sample = await getClient().query({
+      collection_name: collectionName,
       expr: '',
       output_fields: ['id', 'url', 'title'],
       limit: 1,
@@ -429,8 +877,8 @@ export async function checkCollectionData() {
     let count = 0;
     if (hasData) {
       try {
-        const stats = await client.getCollectionStatistics({ 
-          collection_name: COLLECTION_NAME 
+        const stats = await getClient().getCollectionStatistics({ 
+          collection_name: collectionName 
         });
         // Try multiple possible response structures
         count = (stats as any).stats?.row_count 
@@ -470,4 +918,4 @@ export async function checkCollectionData() {
 }
 
 // Export Milvus client for direct access if needed
-export { client };
+export { getClient };
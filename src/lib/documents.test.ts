@@ -0,0 +1,102 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { csvToMarkdown, detectDocumentFormat, parseCsv } from '@/lib/documents';
+
+describe('detectDocumentFormat', () => {
+  it('goes by file extension, then by MIME type', () => {
+    expect(detectDocumentFormat('Report.PDF')).toBe('pdf');
+    expect(detectDocumentFormat('notes.md')).toBe('markdown');
+    expect(detectDocumentFormat('data.csv', 'application/octet-stream')).toBe('csv');
+    expect(detectDocumentFormat('download', 'text/plain; charset=utf-8')).toBe('text');
+    expect(detectDocumentFormat('letter.doc', 'application/msword')).toBeNull();
+    expect(detectDocumentFormat('archive')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes, embedded newlines and CRLF', () => {
+    expect(parseCsv('name,notes\r\n"Smith, Jo","said ""hi""\nthen left"\r\nLee,\r\n')).toEqual([
+      ['name', 'notes'],
+      ['Smith, Jo', 'said "hi"\nthen left'],
+      ['Lee', ''],
+    ]);
+  });
+
+  it('drops blank rows and keeps a last row without a newline', () => {
+    expect(parseCsv('a,b\n\n,\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('csvToMarkdown', () => {
+  it('renders a table with the first row as header, padding short rows and escaping pipes', () => {
+    expect(csvToMarkdown('Plan,Price,Notes\nBasic,$5\nPro,$20,"a | b\nc"')).toBe([
+      '| Plan | Price | Notes |',
+      '| --- | --- | --- |',
+      '| Basic | $5 |  |',
+      '| Pro | $20 | a \\| b c |',
+    ].join('\n'));
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(csvToMarkdown('\n\n')).toBe('');
+  });
+});
+
+describe('fetchDocument', () => {
+  const MAX_BYTES = 1024;
+  let server: http.Server;
+  let origin = '';
+  let bytesSent = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      if (request.url === '/notes.txt') {
+        response.writeHead(200, { 'content-type': 'text/plain' });
+        response.end('Opening hours are nine to five.');
+        return;
+      }
+      // No content-length: the body is streamed in chunks well past the limit
+      response.writeHead(200, { 'content-type': 'application/pdf' });
+      const write = () => {
+        if (bytesSent >= MAX_BYTES * 64 || response.destroyed) {
+          response.end();
+          return;
+        }
+        bytesSent += 512;
+        response.write(Buffer.alloc(512), () => setImmediate(write));
+      };
+      write();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // MAX_DOCUMENT_BYTES is read when the module loads
+  const loadFetchDocument = async () => {
+    vi.stubEnv('DOCUMENT_MAX_BYTES', String(MAX_BYTES));
+    vi.resetModules();
+    return (await import('@/lib/documents')).fetchDocument;
+  };
+
+  it('downloads and extracts a document', async () => {
+    const fetchDocument = await loadFetchDocument();
+    expect(await fetchDocument(`${origin}/notes.txt`)).toMatchObject({
+      title: 'notes',
+      content: 'Opening hours are nine to five.',
+      contentType: 'text/plain',
+    });
+  });
+
+  it('stops reading a body without content-length once it passes the size limit', async () => {
+    const fetchDocument = await loadFetchDocument();
+    await expect(fetchDocument(`${origin}/large.pdf`)).rejects.toThrow(`Document is larger than ${MAX_BYTES} bytes`);
+    expect(bytesSent).toBeLessThan(MAX_BYTES * 64);
+  });
+});
@@ -0,0 +1,233 @@
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { fetchWithTimeout } from '@/lib/http';
+import { htmlToMarkdown } from '@/lib/markdown';
+
+// Largest document accepted for upload or downloaded during a crawl
+export const MAX_DOCUMENT_BYTES = Number(process.env.DOCUMENT_MAX_BYTES || 20 * 1024 * 1024);
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text' | 'csv';
+
+const FORMAT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  markdown: 'text/markdown',
+  text: 'text/plain',
+  csv: 'text/csv',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  csv: 'csv',
+};
+
+export interface ExtractedDocument {
+  title: string;
+  description: string;
+  content: string; // Markdown, ready for chunkDocument
+  contentType: string;
+}
+
+// Work out a document's format from its file extension, falling back to its MIME type;
+// returns null for unsupported files
+export function detectDocumentFormat(fileName: string, mimeType?: string | null): DocumentFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension];
+  }
+
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  const match = (Object.entries(FORMAT_CONTENT_TYPES) as Array<[DocumentFormat, string]>)
+    .find(([, contentType]) => contentType === type);
+  return match ? match[0] : null;
+}
+
+// Synthetic source URL for an uploaded file; uploading a file with the same name again into the
+// same knowledge base updates the stored document instead of adding a second copy
+export function uploadSourceUrl(fileName: string): string {
+  return `upload://documents/${encodeURIComponent(fileName)}`;
+}
+
+// File name without its extension, used as the title when the document has none
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || fileName;
+}
+
+// Extract PDF text page by page; multi-page documents get a "Page N" heading per page so chunks
+// never span pages and citations can point at the page
+async function extractPdf(buffer: Buffer, fileName: string): Promise<ExtractedDocument> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const info = await parser.getInfo();
+    const result = await parser.getText();
+    const pages = result.pages
+      .map(page => ({ num: page.num, text: page.text.replace(/[ \t]+\n/g, '\n').trim() }))
+      .filter(page => page.text);
+
+    const content = pages.length > 1
+      ? pages.map(page => `# Page ${page.num}\n\n${page.text}`).join('\n\n')
+      : pages.map(page => page.text).join('\n\n');
+
+    return {
+      title: String(info.info?.Title || '').trim() || titleFromFileName(fileName),
+      description: String(info.info?.Subject || '').trim(),
+      content,
+      contentType: FORMAT_CONTENT_TYPES.pdf,
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Convert DOCX to HTML and then to Markdown, keeping headings, lists and tables
+async function extractDocx(buffer: Buffer, fileName: string): Promise<ExtractedDocument> {
+  const result = await mammoth.convertToHtml({ buffer });
+  const $ = cheerio.load(result.value);
+  return {
+    title: $('h1').first().text().replace(/\s+/g, ' ').trim() || titleFromFileName(fileName),
+    description: '',
+    content: htmlToMarkdown($),
+    contentType: FORMAT_CONTENT_TYPES.docx,
+  };
+}
+
+// Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    rows.push([...row, field]);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Render CSV as a Markdown table whose first row is the header; the chunker keeps tables whole
+// and repeats the header when a table has to be split
+export function csvToMarkdown(text: string): string {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(cells => cells.length));
+  const lines = rows.map(cells => `| ${[...cells, ...Array(width - cells.length).fill('')]
+    .map(cell => cell.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'))
+    .join(' | ')} |`);
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+  return lines.join('\n');
+}
+
+// Extract the text and structure of an uploaded or downloaded document as Markdown
+export async function extractDocument(buffer: Buffer, fileName: string, mimeType?: string | null): Promise<ExtractedDocument> {
+  const format = detectDocumentFormat(fileName, mimeType);
+  if (!format) {
+    throw new Error(`Unsupported document type: ${fileName}`);
+  }
+
+  try {
+    console.log(`Extracting ${format} document ${fileName} (${buffer.length} bytes)...`);
+    if (format === 'pdf') {
+      return await extractPdf(buffer, fileName);
+    }
+    if (format === 'docx') {
+      return await extractDocx(buffer, fileName);
+    }
+
+    const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+    if (format === 'csv') {
+      return { title: titleFromFileName(fileName), description: '', content: csvToMarkdown(text), contentType: FORMAT_CONTENT_TYPES.csv };
+    }
+    if (format === 'markdown') {
+      const heading = text.match(/^#\s+(.+)$/m)?.[1].trim();
+      return { title: heading || titleFromFileName(fileName), description: '', content: text.trim(), contentType: FORMAT_CONTENT_TYPES.markdown };
+    }
+    return { title: titleFromFileName(fileName), description: '', content: text.trim(), contentType: FORMAT_CONTENT_TYPES.text };
+  } catch (error) {
+    console.error(`Error extracting document ${fileName}:`, error);
+    throw error;
+  }
+}
+
+// Read a response body, giving up as soon as it grows past maxBytes, so a server that sends no
+// (or a false) content-length can't make us hold an arbitrarily large document in memory
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    total += next.value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Document is larger than ${maxBytes} bytes`);
+    }
+    parts.push(next.value);
+  }
+  return Buffer.concat(parts);
+}
+
+// Download a linked document (e.g. a PDF found while crawling) and extract it
+export async function fetchDocument(
+  url: string,
+  options: { timeoutMs?: number; userAgent?: string; signal?: AbortSignal } = {}
+): Promise<ExtractedDocument> {
+  const response = await fetchWithTimeout(url, { ...options, accept: FORMAT_CONTENT_TYPES.pdf });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > MAX_DOCUMENT_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Document is larger than ${MAX_DOCUMENT_BYTES} bytes`);
+  }
+
+  const buffer = await readBodyWithLimit(response, MAX_DOCUMENT_BYTES);
+
+  const lastSegment = new URL(response.url || url).pathname.split('/').pop() || 'document';
+  let fileName = lastSegment;
+  try {
+    fileName = decodeURIComponent(lastSegment);
+  } catch {
+    // Keep the encoded name
+  }
+  return extractDocument(buffer, fileName, response.headers.get('content-type'));
+}
@@ -0,0 +1,187 @@
+import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+import OpenAI from 'openai';
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimension: number;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+// The model and vector size a collection was built with
+export interface EmbeddingSpec {
+  model: string;
+  dimension: number;
+}
+
+// Collections created before providers were configurable were all embedded with Gemini
+export const LEGACY_EMBEDDING_MODEL = 'gemini:text-embedding-004';
+
+// Known output dimensions for supported models
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+const OPENAI_BATCH_SIZE = 100;
+
+// Google Gemini embeddings (text-embedding-004, 768 dimensions)
+function createGeminiProvider(): EmbeddingProvider {
+  const model = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+  let embeddings: GoogleGenerativeAIEmbeddings | null = null;
+
+  // Created lazily so the API key is only required when Gemini is actually used
+  const getEmbeddings = () => {
+    if (!embeddings) {
+      embeddings = new GoogleGenerativeAIEmbeddings({
+        apiKey: process.env.GOOGLE_API_KEY,
+        model, // This model should work with v1beta
+      });
+    }
+    return embeddings;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    dimension: Number(process.env.GEMINI_EMBEDDING_DIMENSION || 768),
+    embedDocuments: texts => getEmbeddings().embedDocuments(texts),
+    embedQuery: text => getEmbeddings().embedQuery(text),
+  };
+}
+
+// OpenAI embeddings; text-embedding-3 models can be shortened with OPENAI_EMBEDDING_DIMENSIONS
+function createOpenAIProvider(): EmbeddingProvider {
+  const model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  const requestedDimensions = process.env.OPENAI_EMBEDDING_DIMENSIONS
+    ? Number(process.env.OPENAI_EMBEDDING_DIMENSIONS)
+    : undefined;
+  const dimension = requestedDimensions || OPENAI_MODEL_DIMENSIONS[model];
+  if (!dimension) {
+    throw new Error(`Unknown dimension for OpenAI embedding model ${model}; set OPENAI_EMBEDDING_DIMENSIONS`);
+  }
+
+  let client: OpenAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return client;
+  };
+
+  const embedDocuments = async (texts: string[]) => {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await getClient().embeddings.create({
+        model,
+        input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+        ...(requestedDimensions ? { dimensions: requestedDimensions } : {}),
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+    return vectors;
+  };
+
+  return {
+    name: 'openai',
+    model,
+    dimension,
+    embedDocuments,
+    embedQuery: async text => (await embedDocuments([text]))[0],
+  };
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic, offline embedder using feature hashing of words and character trigrams.
+// Useful for tests and local development; similarity is lexical rather than semantic.
+function createHashProvider(): EmbeddingProvider {
+  const dimension = Number(process.env.HASH_EMBEDDING_DIMENSION || 256);
+
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features: string[] = [];
+    for (const word of words) {
+      features.push(`w:${word}`);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`t:${padded.substring(i, i + 3)}`);
+      }
+    }
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const sign = fnv1a(`s:${feature}`) & 1 ? 1 : -1;
+      vector[hash % dimension] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+
+  return {
+    name: 'hash',
+    model: 'feature-hash-v1',
+    dimension,
+    embedDocuments: async texts => texts.map(embed),
+    embedQuery: async text => embed(text),
+  };
+}
+
+let provider: EmbeddingProvider | null = null;
+
+// Get the configured embedding provider: EMBEDDING_PROVIDER=gemini (default), openai or hash
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const name = (process.env.EMBEDDING_PROVIDER || 'gemini').toLowerCase();
+  switch (name) {
+    case 'gemini':
+      provider = createGeminiProvider();
+      break;
+    case 'openai':
+      provider = createOpenAIProvider();
+      break;
+    case 'hash':
+      provider = createHashProvider();
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected gemini, openai or hash)`);
+  }
+
+  console.log(`Using ${provider.name} embeddings (${provider.model}, ${provider.dimension} dimensions)`);
+  return provider;
+}
+
+// Model identifier and dimension recorded on each collection so vectors from different models are never mixed
+export function getEmbeddingSpec(embeddingProvider: EmbeddingProvider = getEmbeddingProvider()): EmbeddingSpec {
+  return {
+    model: `${embeddingProvider.name}:${embeddingProvider.model}`,
+    dimension: embeddingProvider.dimension,
+  };
+}
+
+// Throw if a collection was built with a different embedding model or dimension than expected
+export function assertEmbeddingCompatible(collectionName: string, stored: EmbeddingSpec, expected: EmbeddingSpec) {
+  if (stored.model !== expected.model || stored.dimension !== expected.dimension) {
+    throw new Error(
+      `Collection ${collectionName} was built with ${stored.model} (${stored.dimension} dimensions) ` +
+      `but the configured embedding provider is ${expected.model} (${expected.dimension} dimensions). ` +
+      'Switch EMBEDDING_PROVIDER back or re-index the knowledge base (POST /api/knowledge-bases/{id}/reindex).'
+    );
+  }
+}
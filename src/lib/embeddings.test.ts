@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createChunkId, hashContent, normalizeVector } from '@/lib/embeddings';
+
+describe('createChunkId', () => {
+  const hash = hashContent('Plans start at ten dollars a month.');
+
+  it('gives the same chunk the same 32-character hex ID every time', () => {
+    const id = createChunkId('kb_products', 'https://example.com/pricing', 2, hash);
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(createChunkId('kb_products', 'https://example.com/pricing', 2, hash)).toBe(id);
+  });
+
+  it('changes with the collection, source URL, position or content', () => {
+    const id = createChunkId('kb_products', 'https://example.com/pricing', 2, hash);
+    expect(createChunkId('kb_support', 'https://example.com/pricing', 2, hash)).not.toBe(id);
+    expect(createChunkId('kb_products', 'https://example.com/plans', 2, hash)).not.toBe(id);
+    expect(createChunkId('kb_products', 'https://example.com/pricing', 3, hash)).not.toBe(id);
+    expect(createChunkId('kb_products', 'https://example.com/pricing', 2, hashContent('Plans changed.'))).not.toBe(id);
+  });
+});
+
+describe('normalizeVector', () => {
+  it('scales vectors to unit length and leaves zero vectors alone', () => {
+    expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalizeVector([0, 0])).toEqual([0, 0]);
+  });
+});
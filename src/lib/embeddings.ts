@@ -1,80 +1,117 @@
-import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import { createHash } from 'crypto';
+import { chunkDocument, ChunkingOptions, DocumentChunk } from '@/lib/chunker';
+import { EmbeddingProvider, getEmbeddingProvider } from '@/lib/embedding-providers';
 
-// Initialize Google Gemini embeddings
-const embeddings = new GoogleGenerativeAIEmbeddings({
-  apiKey: process.env.GOOGLE_API_KEY,
-  model: 'text-embedding-004', // This model should work with v1beta
-});
+// Scale a vector to unit length, so inner product equals cosine similarity
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
 
-// Initialize text splitter with LangChain
-const textSplitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 1000,
-  chunkOverlap: 200,
-  separators: ['\n\n', '\n', '. ', '! ', '? ', ' ', ''],
-});
+// Throw if the provider returned vectors of a different size than it is configured for (e.g. a
+// wrong GEMINI_EMBEDDING_DIMENSION), rather than failing later on a Milvus insert or search
+function checkDimension(provider: EmbeddingProvider, vector: number[]) {
+  if (vector.length !== provider.dimension) {
+    throw new Error(
+      `${provider.name} embedding model ${provider.model} returned ${vector.length}-dimensional vectors ` +
+      `but is configured for ${provider.dimension}; check GEMINI_EMBEDDING_DIMENSION or OPENAI_EMBEDDING_DIMENSIONS`
+    );
+  }
+}
 
-// Function to generate embeddings for text using Google Gemini
+// Function to generate embeddings for text using the configured provider (unit length)
 export async function generateEmbedding(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
   try {
-    const embedding = await embeddings.embedQuery(text);
-    return embedding;
+    const embedding = await provider.embedQuery(text);
+    checkDimension(provider, embedding);
+    return normalizeVector(embedding);
   } catch (error) {
-    console.error('Error generating embedding with Gemini:', error);
+    console.error(`Error generating embedding with ${provider.name}:`, error);
     throw error;
   }
 }
 
-// Function to generate embeddings for multiple texts (batch processing)
+// Function to generate embeddings for multiple texts (batch processing, unit length)
 export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
   try {
-    const embeddings_result = await embeddings.embedDocuments(texts);
-    return embeddings_result;
+    const embeddings_result = await provider.embedDocuments(texts);
+    embeddings_result.forEach(embedding => checkDimension(provider, embedding));
+    return embeddings_result.map(normalizeVector);
   } catch (error) {
-    console.error('Error generating batch embeddings with Gemini:', error);
+    console.error(`Error generating batch embeddings with ${provider.name}:`, error);
     throw error;
   }
 }
 
-// Function to chunk text using LangChain's RecursiveCharacterTextSplitter
-export async function chunkText(text: string): Promise<string[]> {
+// Function to compute a stable hash of chunk content, used to detect unchanged chunks on re-crawl
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Function to derive a chunk's primary key from its knowledge base collection, source URL, position
+// and content, so re-storing the same chunk overwrites it instead of adding a duplicate
+export function createChunkId(collectionName: string, url: string, chunkIndex: number, contentHash: string): string {
+  return createHash('sha256').update(`${collectionName}\n${url}\n${chunkIndex}\n${contentHash}`).digest('hex').substring(0, 32);
+}
+
+// Function to embed already-split chunks, skipping the positions in skipIndexes and reusing
+// knownEmbeddings (by content hash) instead of calling the provider again
+export async function embedChunks(
+  chunks: DocumentChunk[],
+  metadata: any = {},
+  options: { skipIndexes?: Set<number>; knownEmbeddings?: Map<string, number[]> } = {}
+) {
   try {
-    const chunks = await textSplitter.splitText(text);
-    return chunks.filter(chunk => chunk.trim().length > 10); // Filter out very short chunks
+    const pending = chunks
+      .map((chunk, index) => ({ chunk: chunk.content, headingPath: chunk.headingPath, index, contentHash: hashContent(chunk.content) }))
+      .filter(item => !options.skipIndexes?.has(item.index));
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const toEmbed = pending.filter(item => !options.knownEmbeddings?.has(item.contentHash));
+    console.log(`Processing ${toEmbed.length} of ${chunks.length} chunks for embeddings (${pending.length - toEmbed.length} reused)...`);
+
+    // Generate embeddings for all new chunks in batch (more efficient)
+    const embeddings_batch = toEmbed.length > 0 ? await generateEmbeddings(toEmbed.map(item => item.chunk)) : [];
+    const embeddingsByHash = new Map(options.knownEmbeddings);
+    toEmbed.forEach((item, batchIndex) => embeddingsByHash.set(item.contentHash, embeddings_batch[batchIndex]));
+
+    // Combine chunks with their embeddings
+    return pending.map(item => ({
+      content: item.chunk,
+      embedding: embeddingsByHash.get(item.contentHash)!,
+      metadata: {
+        ...metadata,
+        contentHash: item.contentHash,
+        chunkLength: item.chunk.length,
+        chunkIndex: item.index,
+        headingPath: item.headingPath,
+        totalChunks: chunks.length,
+        processedAt: new Date().toISOString(),
+      },
+    }));
   } catch (error) {
-    console.error('Error chunking text:', error);
+    console.error('Error embedding chunks:', error);
     throw error;
   }
 }
 
 // Function to process crawled content and generate embeddings with batch processing
-export async function processContentForEmbeddings(content: string, metadata: any = {}) {
+export async function processContentForEmbeddings(content: string, metadata: any = {}, chunking?: ChunkingOptions) {
   try {
-    // Split content into chunks using LangChain
-    const chunks = await chunkText(content);
+    // Split content into chunks along its headings, tables and code blocks
+    const chunks = await chunkDocument(content, chunking);
     
     if (chunks.length === 0) {
       console.warn('No valid chunks generated from content');
       return [];
     }
 
-    console.log(`Processing ${chunks.length} chunks for embeddings...`);
-    
-    // Generate embeddings for all chunks in batch (more efficient)
-    const embeddings_batch = await generateEmbeddings(chunks);
-    
-    // Combine chunks with their embeddings
-    const chunksWithEmbeddings = chunks.map((chunk, index) => ({
-      content: chunk,
-      embedding: embeddings_batch[index],
-      metadata: {
-        ...metadata,
-        chunkLength: chunk.length,
-        chunkIndex: index,
-        totalChunks: chunks.length,
-        processedAt: new Date().toISOString(),
-      },
-    }));
+    const chunksWithEmbeddings = await embedChunks(chunks, metadata);
     
     console.log(`Successfully processed ${chunksWithEmbeddings.length} chunks with embeddings`);
     return chunksWithEmbeddings;
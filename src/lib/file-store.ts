@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Directory for small JSON stores (schedules and similar app state)
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// Resolve a file inside the data directory
+export function getDataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+// Read a JSON file from the data directory, returning the fallback if it doesn't exist yet
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(getDataPath(fileName), 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return fallback;
+    }
+    console.error(`Error reading data file ${fileName}:`, error);
+    throw error;
+  }
+}
+
+// Write a JSON file into the data directory atomically (write to a temp file, then rename). Each
+// write gets its own temp file, so concurrent writers never clobber each other's; the last rename wins.
+// Large files (vector store collections) are written compact rather than indented.
+export async function writeJsonFile(fileName: string, data: unknown, options: { compact?: boolean } = {}): Promise<void> {
+  const filePath = getDataPath(fileName);
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, options.compact ? JSON.stringify(data) : JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    console.error(`Error writing data file ${fileName}:`, error);
+    throw error;
+  }
+}
+
+// Per-file queues so read-modify-write cycles on the same file never interleave
+const updateQueues = new Map<string, Promise<unknown>>();
+
+// Read a JSON file, let `update` modify it in place, then write it back
+export function updateJsonFile<T, R>(
+  fileName: string,
+  fallback: T,
+  update: (data: T) => R | Promise<R>
+): Promise<R> {
+  const previous = updateQueues.get(fileName) || Promise.resolve();
+  const run = previous.then(async () => {
+    const data = await readJsonFile<T>(fileName, fallback);
+    const result = await update(data);
+    await writeJsonFile(fileName, data);
+    return result;
+  });
+  updateQueues.set(fileName, run.catch(() => undefined));
+  return run;
+}
+
+// Delete a file from the data directory (no-op if it doesn't exist)
+export async function deleteJsonFile(fileName: string): Promise<void> {
+  try {
+    await fs.unlink(getDataPath(fileName));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`Error deleting data file ${fileName}:`, error);
+      throw error;
+    }
+  }
+}
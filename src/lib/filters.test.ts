@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { and, buildRetrievalFilter, eq, inList, matchesFilter, or, prefix, range, toMilvusExpression } from '@/lib/filters';
+
+describe('toMilvusExpression', () => {
+  it('renders each operator', () => {
+    expect(toMilvusExpression(eq('url', 'https://example.com/'))).toBe('url == "https://example.com/"');
+    expect(toMilvusExpression(inList('chunk_index', [1, 2]))).toBe('chunk_index in [1, 2]');
+    expect(toMilvusExpression(inList('url', []))).toBe('false');
+    expect(toMilvusExpression(prefix('url', 'https://example.com/docs/'))).toBe('url like "https://example.com/docs/%"');
+    expect(toMilvusExpression(range('crawled_at', { gte: 10, lte: 20 }))).toBe('(crawled_at >= 10 && crawled_at <= 20)');
+    expect(toMilvusExpression(and(eq('title', 'A'), or(eq('title', 'B'), eq('title', 'C')))))
+      .toBe('(title == "A" && (title == "B" || title == "C"))');
+    expect(toMilvusExpression(eq('attributes.language', 'en'))).toBe('attributes["language"] == "en"');
+  });
+
+  it('escapes quotes, backslashes and LIKE wildcards in values', () => {
+    expect(toMilvusExpression(eq('title', 'say "hi" \\ bye'))).toBe('title == "say \\"hi\\" \\\\ bye"');
+    expect(toMilvusExpression(prefix('url', 'https://example.com/100%_off'))).toBe('url like "https://example.com/100\\\\%\\\\_off%"');
+  });
+
+  it('rejects invalid field names and non-finite numbers', () => {
+    expect(() => toMilvusExpression(eq('url == "x" || id', 'y'))).toThrow('Invalid filter field');
+    expect(() => toMilvusExpression(eq('crawled_at', NaN))).toThrow('Invalid numeric filter value');
+  });
+});
+
+describe('matchesFilter', () => {
+  const chunk = {
+    url: 'https://example.com/docs/setup',
+    crawled_at: 1500,
+    content_type: 'text/html',
+    attributes: { language: 'en' },
+  };
+
+  it('evaluates filters against in-memory records', () => {
+    expect(matchesFilter(prefix('url', 'https://example.com/docs/'), chunk)).toBe(true);
+    expect(matchesFilter(range('crawled_at', { gte: 1000, lte: 2000 }), chunk)).toBe(true);
+    expect(matchesFilter(range('crawled_at', { gte: 2000 }), chunk)).toBe(false);
+    expect(matchesFilter(inList('content_type', ['application/pdf']), chunk)).toBe(false);
+    expect(matchesFilter(eq('attributes.language', 'en'), chunk)).toBe(true);
+    expect(matchesFilter(and(eq('content_type', 'text/html'), eq('attributes.language', 'de')), chunk)).toBe(false);
+    expect(matchesFilter(or(eq('content_type', 'text/csv'), eq('attributes.language', 'en')), chunk)).toBe(true);
+  });
+});
+
+describe('buildRetrievalFilter', () => {
+  it('returns null when no restrictions are given', () => {
+    expect(buildRetrievalFilter(undefined)).toBeNull();
+  });
+
+  it('restricts to a domain without matching other hosts with the same prefix', () => {
+    const filter = buildRetrievalFilter({ domain: 'https://docs.example.com/guide' })!;
+    expect(matchesFilter(filter, { url: 'https://docs.example.com/start' })).toBe(true);
+    expect(matchesFilter(filter, { url: 'http://docs.example.com' })).toBe(true);
+    expect(matchesFilter(filter, { url: 'https://docs.example.com.evil.test/start' })).toBe(false);
+  });
+
+  it('combines a path prefix with a crawl time window', () => {
+    const filter = buildRetrievalFilter({
+      pathPrefix: 'https://example.com/blog/',
+      crawledAfter: '2024-01-01T00:00:00Z',
+    })!;
+    const crawledAt = Date.parse('2024-06-01T00:00:00Z');
+    expect(matchesFilter(filter, { url: 'https://example.com/blog/post', crawled_at: crawledAt })).toBe(true);
+    expect(matchesFilter(filter, { url: 'https://example.com/about', crawled_at: crawledAt })).toBe(false);
+    expect(matchesFilter(filter, { url: 'https://example.com/blog/post', crawled_at: Date.parse('2023-06-01T00:00:00Z') })).toBe(false);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => buildRetrievalFilter({ pathPrefix: '/blog/' })).toThrow('pathPrefix must be an absolute URL');
+    expect(() => buildRetrievalFilter({ crawledAfter: 'last tuesday' })).toThrow('crawledAfter must be an ISO date');
+  });
+});
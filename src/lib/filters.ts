@@ -0,0 +1,193 @@
+// Typed filter expressions over chunk metadata. Build them with the helpers below rather than by
+// string interpolation; they render to escaped Milvus expressions or match in-memory records.
+
+export type FilterValue = string | number;
+
+export type FilterExpression =
+  | { op: 'eq'; field: string; value: FilterValue }
+  | { op: 'in'; field: string; values: FilterValue[] }
+  | { op: 'prefix'; field: string; value: string }
+  | { op: 'range'; field: string; gte?: number; lte?: number }
+  | { op: 'and'; filters: FilterExpression[] }
+  | { op: 'or'; filters: FilterExpression[] };
+
+// Request-level retrieval restrictions accepted by /api/chat
+export interface RetrievalFilterInput {
+  domain?: string; // e.g. "docs.example.com"
+  pathPrefix?: string; // Full URL prefix, e.g. "https://example.com/blog/"
+  urls?: string[]; // Exact page URLs
+  crawledAfter?: string | number; // ISO date or timestamp (ms)
+  crawledBefore?: string | number;
+  contentType?: string | string[]; // e.g. "text/html" or ["application/pdf", "text/csv"]
+  attributes?: Record<string, string | number>; // Exact matches on keys of the stored JSON metadata
+}
+
+// Field names are fixed identifiers in our schema, optionally followed by a key inside a JSON
+// field ("attributes.language"); reject anything else outright
+const FIELD_NAME_PATTERN = /^[a-z_][a-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+export const eq = (field: string, value: FilterValue): FilterExpression => ({ op: 'eq', field, value });
+export const inList = (field: string, values: FilterValue[]): FilterExpression => ({ op: 'in', field, values });
+export const prefix = (field: string, value: string): FilterExpression => ({ op: 'prefix', field, value });
+export const range = (field: string, bounds: { gte?: number; lte?: number }): FilterExpression => ({ op: 'range', field, ...bounds });
+export const and = (...filters: FilterExpression[]): FilterExpression => ({ op: 'and', filters });
+export const or = (...filters: FilterExpression[]): FilterExpression => ({ op: 'or', filters });
+
+// Validate a field name and render it, using Milvus JSON path syntax for keys inside a JSON field
+function checkField(field: string): string {
+  if (!FIELD_NAME_PATTERN.test(field)) {
+    throw new Error(`Invalid filter field "${field}"`);
+  }
+  const [column, key] = field.split('.');
+  return key ? `${column}["${key}"]` : column;
+}
+
+// Read a (possibly JSON-nested) field from an in-memory record
+function readField(record: Record<string, unknown>, field: string): unknown {
+  const [column, key] = field.split('.');
+  const value = record[column];
+  if (!key) {
+    return value;
+  }
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// Render a string as a double-quoted Milvus literal
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function literal(value: FilterValue): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid numeric filter value ${value}`);
+    }
+    return String(value);
+  }
+  return quote(value);
+}
+
+// Render a filter as a Milvus boolean expression with all values escaped
+export function toMilvusExpression(filter: FilterExpression): string {
+  switch (filter.op) {
+    case 'eq':
+      return `${checkField(filter.field)} == ${literal(filter.value)}`;
+    case 'in':
+      if (filter.values.length === 0) {
+        return 'false';
+      }
+      return `${checkField(filter.field)} in [${filter.values.map(literal).join(', ')}]`;
+    case 'prefix':
+      // LIKE wildcards in the value itself must match literally
+      return `${checkField(filter.field)} like ${quote(`${filter.value.replace(/[\\%_]/g, '\\$&')}%`)}`;
+    case 'range': {
+      const field = checkField(filter.field);
+      const parts: string[] = [];
+      if (filter.gte !== undefined) parts.push(`${field} >= ${literal(filter.gte)}`);
+      if (filter.lte !== undefined) parts.push(`${field} <= ${literal(filter.lte)}`);
+      return parts.length > 0 ? `(${parts.join(' && ')})` : 'true';
+    }
+    case 'and':
+    case 'or': {
+      if (filter.filters.length === 0) {
+        return filter.op === 'and' ? 'true' : 'false';
+      }
+      const joiner = filter.op === 'and' ? ' && ' : ' || ';
+      return `(${filter.filters.map(toMilvusExpression).join(joiner)})`;
+    }
+  }
+}
+
+// Evaluate a filter against an in-memory record (used by the memory store and keyword index)
+export function matchesFilter(filter: FilterExpression, item: object): boolean {
+  const record = item as Record<string, unknown>;
+  switch (filter.op) {
+    case 'eq':
+      return readField(record, filter.field) === filter.value;
+    case 'in':
+      return filter.values.includes(readField(record, filter.field) as FilterValue);
+    case 'prefix': {
+      const value = readField(record, filter.field);
+      return typeof value === 'string' && value.startsWith(filter.value);
+    }
+    case 'range': {
+      const value = Number(readField(record, filter.field));
+      return (filter.gte === undefined || value >= filter.gte) && (filter.lte === undefined || value <= filter.lte);
+    }
+    case 'and':
+      return filter.filters.every(child => matchesFilter(child, record));
+    case 'or':
+      return filter.filters.some(child => matchesFilter(child, record));
+  }
+}
+
+function parseDate(value: string | number, name: string): number {
+  const timestamp = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`${name} must be an ISO date or a timestamp in milliseconds`);
+  }
+  return timestamp;
+}
+
+// Turn request-level restrictions into a filter on the page URL, crawl time and stored metadata; null if none given
+export function buildRetrievalFilter(input: RetrievalFilterInput | undefined | null): FilterExpression | null {
+  if (!input) {
+    return null;
+  }
+
+  const filters: FilterExpression[] = [];
+
+  if (input.domain) {
+    const host = String(input.domain).toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    filters.push(or(
+      prefix('url', `https://${host}/`),
+      prefix('url', `http://${host}/`),
+      inList('url', [`https://${host}`, `http://${host}`]),
+    ));
+  }
+
+  if (input.pathPrefix) {
+    try {
+      new URL(input.pathPrefix);
+    } catch {
+      throw new Error('pathPrefix must be an absolute URL');
+    }
+    filters.push(prefix('url', String(input.pathPrefix)));
+  }
+
+  if (input.urls && input.urls.length > 0) {
+    if (!Array.isArray(input.urls)) {
+      throw new Error('urls must be an array');
+    }
+    filters.push(inList('url', input.urls.map(String)));
+  }
+
+  if (input.crawledAfter !== undefined || input.crawledBefore !== undefined) {
+    filters.push(range('crawled_at', {
+      gte: input.crawledAfter !== undefined ? parseDate(input.crawledAfter, 'crawledAfter') : undefined,
+      lte: input.crawledBefore !== undefined ? parseDate(input.crawledBefore, 'crawledBefore') : undefined,
+    }));
+  }
+
+  if (input.contentType) {
+    const contentTypes = Array.isArray(input.contentType) ? input.contentType : [input.contentType];
+    filters.push(inList('content_type', contentTypes.map(String)));
+  }
+
+  if (input.attributes) {
+    if (typeof input.attributes !== 'object' || Array.isArray(input.attributes)) {
+      throw new Error('attributes must be an object of key/value pairs');
+    }
+    for (const [key, value] of Object.entries(input.attributes)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new Error(`Invalid attribute name "${key}"`);
+      }
+      filters.push(eq(`attributes.${key}`, typeof value === 'number' ? value : String(value)));
+    }
+  }
+
+  if (filters.length === 0) {
+    return null;
+  }
+  return filters.length === 1 ? filters[0] : and(...filters);
+}
@@ -0,0 +1,26 @@
+const DEFAULT_USER_AGENT = process.env.CRAWLER_USER_AGENT || 'WebWhisperBot/1.0';
+
+export interface FetchOptions {
+  timeoutMs?: number;
+  userAgent?: string;
+  accept?: string;
+  signal?: AbortSignal;
+}
+
+// Default user agent used for crawler, robots.txt and sitemap requests
+export function getDefaultUserAgent(): string {
+  return DEFAULT_USER_AGENT;
+}
+
+// Fetch a URL with the crawler's user agent; the timeout also covers reading the body
+export async function fetchWithTimeout(url: string, options: FetchOptions = {}): Promise<Response> {
+  const timeoutSignal = AbortSignal.timeout(options.timeoutMs ?? 15000);
+  return fetch(url, {
+    signal: options.signal ? AbortSignal.any([timeoutSignal, options.signal]) : timeoutSignal,
+    redirect: 'follow',
+    headers: {
+      'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+      ...(options.accept ? { Accept: options.accept } : {}),
+    },
+  });
+}
@@ -0,0 +1,136 @@
+import { chunkDocument, ChunkingOptions } from '@/lib/chunker';
+import { embedChunks, hashContent } from '@/lib/embeddings';
+import { extractKeyInfo, summarizeContent } from '@/lib/llm';
+import { isReindexing } from '@/lib/reindex';
+import { getVectorStore } from '@/lib/vector-store';
+
+export interface PageToIngest {
+  url: string;
+  title: string;
+  description: string;
+  content: string;
+  contentType: string;
+}
+
+export interface SiteInsights {
+  title: string;
+  description: string;
+  summary: string;
+  keyPoints: string[];
+}
+
+// Generate site-level title, description, summary and key points from the start page
+export async function generateSiteInsights(content: string): Promise<SiteInsights> {
+  // Extract key information using Gemini
+  console.log('Extracting key info...');
+  const keyInfo = await extractKeyInfo(content);
+  console.log('Key info extracted:', keyInfo);
+
+  // Generate summary using Gemini
+  console.log('Generating summary...');
+  const summary = await summarizeContent(content);
+  console.log('Summary generated:', summary.substring(0, 100) + '...');
+
+  return {
+    title: keyInfo.title,
+    description: keyInfo.description,
+    summary,
+    keyPoints: keyInfo.keyPoints,
+  };
+}
+
+// Chunk, embed and store a single page. Chunks already stored unchanged at the same position are
+// kept as-is, new, changed or moved chunks are upserted under their deterministic IDs, and
+// chunks that no longer appear on the page are deleted.
+export async function ingestPage(
+  page: PageToIngest,
+  insights: SiteInsights,
+  options: {
+    collectionName: string;
+    crawledAt: string;
+    isStartPage?: boolean;
+    chunking?: ChunkingOptions; // The knowledge base's chunk size and overlap
+    onPhase?: (phase: 'embedding' | 'storing') => void;
+  }
+) {
+  // Crawls that were already running when a re-index started stop storing pages until it ends
+  if (isReindexing(options.collectionName)) {
+    throw new Error('The knowledge base is being re-indexed; crawl or upload again once it finishes');
+  }
+
+  const pageTitle = (options.isStartPage
+    ? insights.title || page.title
+    : page.title || insights.title) || 'Untitled';
+
+  const chunks = await chunkDocument(page.content, options.chunking);
+  const hashes = chunks.map(chunk => hashContent(chunk.content));
+
+  // A stored chunk is unchanged only if the same content is still at the same position of a page
+  // with the same number of chunks; anything else is rewritten (or deleted if it no longer appears)
+  const storedChunks = await getVectorStore().getPageChunkHashes(options.collectionName, page.url);
+  const unchangedIndexes = new Set<number>();
+  const staleChunks: typeof storedChunks = [];
+  for (const stored of storedChunks) {
+    const index = stored.chunkIndex;
+    if (index !== null && !unchangedIndexes.has(index) && stored.totalChunks === chunks.length && stored.contentHash === hashes[index]) {
+      unchangedIndexes.add(index);
+    } else {
+      staleChunks.push(stored);
+    }
+  }
+
+  // Chunks that only moved keep their stored embedding instead of being embedded again
+  const currentHashes = new Set(hashes);
+  const movedChunks = staleChunks.filter(stored => stored.contentHash && currentHashes.has(stored.contentHash));
+  const storedEmbeddings = await getVectorStore().getChunkEmbeddings(options.collectionName, movedChunks.map(stored => stored.id));
+  const knownEmbeddings = new Map<string, number[]>();
+  for (const stored of movedChunks) {
+    const embedding = storedEmbeddings.get(stored.id);
+    if (embedding) knownEmbeddings.set(stored.contentHash!, embedding);
+  }
+
+  // Process only new, changed or moved chunks for embeddings
+  options.onPhase?.('embedding');
+  console.log(`Processing embeddings for ${page.url} (${unchangedIndexes.size} unchanged chunks)...`);
+  const contentChunks = await embedChunks(
+    chunks,
+    {
+      sourceUrl: page.url,
+      pageUrl: page.url,
+      crawledAt: options.crawledAt,
+      contentType: page.contentType || 'text/html',
+      summary: insights.summary,
+      keyPoints: insights.keyPoints,
+    },
+    { skipIndexes: unchangedIndexes, knownEmbeddings }
+  );
+
+  // Store new chunks before removing stale ones so the page is never missing from search
+  options.onPhase?.('storing');
+  let chunksStored = 0;
+  const storedIds = new Set<string>();
+  if (contentChunks.length > 0) {
+    const storeResult = await getVectorStore().storeWebsiteChunks(
+      options.collectionName,
+      page.url,
+      pageTitle,
+      page.description || insights.description || insights.summary,
+      contentChunks
+    );
+    chunksStored = storeResult.chunksStored;
+    storeResult.ids.forEach(id => storedIds.add(id));
+  }
+
+  // Stale chunks that were just overwritten under the same ID must not be deleted
+  const staleIds = staleChunks.map(stored => stored.id).filter(id => !storedIds.has(id));
+  const deleteResult = await getVectorStore().deleteChunksByIds(options.collectionName, staleIds);
+
+  console.log(`Page ${page.url}: ${chunksStored} stored, ${unchangedIndexes.size} unchanged, ${deleteResult.deletedChunks} deleted`);
+  return {
+    url: page.url,
+    title: pageTitle,
+    chunksStored,
+    chunksUnchanged: unchangedIndexes.size,
+    chunksDeleted: deleteResult.deletedChunks,
+  };
+}
@@ -0,0 +1,174 @@
+import { randomBytes } from 'crypto';
+import { ChunkingOptions, DEFAULT_CHUNKING_OPTIONS } from '@/lib/chunker';
+import { getEmbeddingSpec } from '@/lib/embedding-providers';
+import { readJsonFile, updateJsonFile } from '@/lib/file-store';
+import { assertEmbeddingCompatibility, DEFAULT_COLLECTION_NAME, getVectorStore } from '@/lib/vector-store';
+
+const KNOWLEDGE_BASES_FILE = 'knowledge-bases.json';
+
+export const DEFAULT_KNOWLEDGE_BASE_ID = 'default';
+
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description: string;
+  collectionName: string;
+  createdAt: string;
+  chunking?: ChunkingOptions; // Overrides CHUNK_SIZE/CHUNK_OVERLAP; applies to content ingested afterwards
+}
+
+// The default knowledge base maps to the original shared collection so existing data keeps working
+const DEFAULT_KNOWLEDGE_BASE: KnowledgeBase = {
+  id: DEFAULT_KNOWLEDGE_BASE_ID,
+  name: 'Default',
+  description: 'Default knowledge base',
+  collectionName: DEFAULT_COLLECTION_NAME,
+  createdAt: new Date(0).toISOString(),
+};
+
+// Build a URL-safe ID from a name, with a random suffix so names can repeat
+function generateKnowledgeBaseId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 32);
+  return `${slug || 'kb'}-${randomBytes(4).toString('hex')}`;
+}
+
+// Milvus collection names may only contain letters, digits and underscores
+function collectionNameForId(id: string): string {
+  return `kb_${id.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+// List all knowledge bases, including the default one (stored once it has been updated)
+export async function listKnowledgeBases(): Promise<KnowledgeBase[]> {
+  const knowledgeBases = await readJsonFile<KnowledgeBase[]>(KNOWLEDGE_BASES_FILE, []);
+  const storedDefault = knowledgeBases.find(kb => kb.id === DEFAULT_KNOWLEDGE_BASE_ID);
+  return [storedDefault || DEFAULT_KNOWLEDGE_BASE, ...knowledgeBases.filter(kb => kb !== storedDefault)];
+}
+
+// Look up a knowledge base by ID; a missing ID resolves to the default knowledge base
+export async function getKnowledgeBase(id?: string | null): Promise<KnowledgeBase | null> {
+  const knowledgeBases = await readJsonFile<KnowledgeBase[]>(KNOWLEDGE_BASES_FILE, []);
+  if (!id || id === DEFAULT_KNOWLEDGE_BASE_ID) {
+    return knowledgeBases.find(kb => kb.id === DEFAULT_KNOWLEDGE_BASE_ID) || DEFAULT_KNOWLEDGE_BASE;
+  }
+  return knowledgeBases.find(kb => kb.id === id) || null;
+}
+
+// Chunk size and overlap to use when ingesting into a knowledge base
+export function getChunkingOptions(knowledgeBase: KnowledgeBase): ChunkingOptions {
+  return { ...DEFAULT_CHUNKING_OPTIONS, ...knowledgeBase.chunking };
+}
+
+// Validate chunking settings from a request; throws with a message suitable for a 400 response
+export function parseChunkingOptions(value: unknown): ChunkingOptions | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const input = value as Partial<ChunkingOptions>;
+  const chunkSize = Number(input.chunkSize ?? DEFAULT_CHUNKING_OPTIONS.chunkSize);
+  const chunkOverlap = Number(input.chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap);
+
+  // chunkSize counts characters; the chunker also keeps every chunk within the store's byte limit
+  if (!Number.isInteger(chunkSize) || chunkSize < 200 || chunkSize > 8000) {
+    throw new Error('chunkSize must be an integer between 200 and 8000');
+  }
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap > chunkSize / 2) {
+    throw new Error('chunkOverlap must be an integer between 0 and half the chunk size');
+  }
+  return { chunkSize, chunkOverlap };
+}
+
+// Create a knowledge base and its backing Milvus collection
+export async function createKnowledgeBase(input: { name: string; description?: string; chunking?: ChunkingOptions }): Promise<KnowledgeBase> {
+  const id = generateKnowledgeBaseId(input.name);
+  const knowledgeBase: KnowledgeBase = {
+    id,
+    name: input.name,
+    description: input.description || '',
+    collectionName: collectionNameForId(id),
+    createdAt: new Date().toISOString(),
+    ...(input.chunking ? { chunking: input.chunking } : {}),
+  };
+
+  await getVectorStore().initializeDatabase(knowledgeBase.collectionName, getEmbeddingSpec());
+  await updateJsonFile(KNOWLEDGE_BASES_FILE, [], (knowledgeBases: KnowledgeBase[]) => {
+    knowledgeBases.push(knowledgeBase);
+  });
+
+  console.log(`Created knowledge base ${id} (collection ${knowledgeBase.collectionName})`);
+  return knowledgeBase;
+}
+
+// Update a knowledge base's name, description or chunking settings. The default knowledge base
+// only lives in code, so it is stored on first update and then read from the file.
+export async function updateKnowledgeBase(
+  id: string,
+  changes: { name?: string; description?: string; chunking?: ChunkingOptions }
+): Promise<KnowledgeBase | null> {
+  const existing = await getKnowledgeBase(id);
+  if (!existing) {
+    return null;
+  }
+
+  const updated: KnowledgeBase = {
+    ...existing,
+    ...(changes.name !== undefined ? { name: changes.name } : {}),
+    ...(changes.description !== undefined ? { description: changes.description } : {}),
+    ...(changes.chunking !== undefined ? { chunking: changes.chunking } : {}),
+  };
+
+  await updateJsonFile(KNOWLEDGE_BASES_FILE, [], (knowledgeBases: KnowledgeBase[]) => {
+    const index = knowledgeBases.findIndex(kb => kb.id === existing.id);
+    if (index !== -1) {
+      knowledgeBases[index] = updated;
+    } else {
+      knowledgeBases.push(updated);
+    }
+  });
+
+  console.log(`Updated knowledge base ${existing.id}`);
+  return updated;
+}
+
+// Delete a knowledge base and drop its collection; the default knowledge base can't be deleted
+export async function deleteKnowledgeBase(id: string): Promise<boolean> {
+  if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+    throw new Error('The default knowledge base cannot be deleted');
+  }
+
+  const knowledgeBase = await getKnowledgeBase(id);
+  if (!knowledgeBase) {
+    return false;
+  }
+
+  await getVectorStore().dropCollection(knowledgeBase.collectionName);
+  await updateJsonFile(KNOWLEDGE_BASES_FILE, [], (knowledgeBases: KnowledgeBase[]) => {
+    const index = knowledgeBases.findIndex(kb => kb.id === id);
+    if (index !== -1) {
+      knowledgeBases.splice(index, 1);
+    }
+  });
+
+  console.log(`Deleted knowledge base ${id}`);
+  return true;
+}
+
+// Check every knowledge base's collection against the configured embedding provider;
+// returns the problems found so startup can report them without crashing the server
+export async function validateKnowledgeBaseEmbeddings(): Promise<Array<{ knowledgeBaseId: string; error: string }>> {
+  const problems: Array<{ knowledgeBaseId: string; error: string }> = [];
+  for (const knowledgeBase of await listKnowledgeBases()) {
+    try {
+      await assertEmbeddingCompatibility(knowledgeBase.collectionName);
+    } catch (error) {
+      problems.push({
+        knowledgeBaseId: knowledgeBase.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+  return problems;
+}
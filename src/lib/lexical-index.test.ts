@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq } from '@/lib/filters';
+import { searchLexical, tokenize } from '@/lib/lexical-index';
+import type { IndexedChunk } from '@/lib/vector-store';
+
+const store = vi.hoisted(() => ({
+  version: 0,
+  chunks: [] as IndexedChunk[],
+  listChunks: vi.fn(),
+}));
+
+vi.mock('@/lib/vector-store', () => ({
+  getCollectionVersion: () => store.version,
+  getVectorStore: () => ({ listChunks: store.listChunks }),
+}));
+
+const chunk = (id: string, title: string, content: string, url = `https://example.com/${id}`): IndexedChunk => ({
+  id,
+  url,
+  page_url: url,
+  title,
+  content,
+  crawled_at: 0,
+  summary: null,
+  content_hash: null,
+  chunk_index: 0,
+  total_chunks: 1,
+  content_type: 'text/html',
+  attributes: {},
+});
+
+beforeEach(() => {
+  store.version += 1;
+  store.listChunks.mockReset().mockImplementation(async () => store.chunks);
+});
+
+describe('tokenize', () => {
+  it('lowercases words and keeps identifiers with digits whole as well as split', () => {
+    expect(tokenize('Replace part AB-1234 in Model v2.1')).toEqual([
+      'replace', 'part', 'ab', '1234', 'in', 'model', 'v2', '1', 'ab-1234', 'v2.1',
+    ]);
+    expect(tokenize('Sign-in and café')).toEqual(['sign', 'in', 'and', 'café']);
+  });
+});
+
+describe('searchLexical', () => {
+  it('ranks rare terms above common ones and title matches above body matches', async () => {
+    store.chunks = [
+      chunk('shipping', 'Shipping', 'Orders ship within five days.'),
+      chunk('returns', 'Returns', 'Orders can be sent back for a refund.'),
+      chunk('refunds', 'Refund policy', 'How we pay money back.'),
+      chunk('warranty', 'Warranty', 'Orders come with a two year warranty.'),
+      chunk('about', 'About us', 'We are a small shop.'),
+    ];
+
+    expect((await searchLexical('kb', 'orders warranty')).map(hit => hit.chunk.id)).toEqual(['warranty', 'shipping', 'returns']);
+
+    const hits = await searchLexical('kb', 'refund');
+    expect(hits.map(hit => hit.chunk.id)).toEqual(['refunds', 'returns']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('matches part numbers exactly and applies filters and the limit', async () => {
+    store.chunks = [
+      chunk('pump', 'Pump', 'Replacement pump AB-1234.'),
+      chunk('valve', 'Valve', 'Valve AB-1235 fits pump AB-1234.', 'https://example.com/parts/valve'),
+      chunk('hose', 'Hose', 'Hose AB-9999.'),
+    ];
+
+    expect((await searchLexical('kb', 'AB-1234')).map(hit => hit.chunk.id)).toEqual(['pump', 'valve', 'hose']);
+    expect((await searchLexical('kb', 'AB-1234', 1)).map(hit => hit.chunk.id)).toEqual(['pump']);
+    expect((await searchLexical('kb', 'AB-1234', 10, eq('url', 'https://example.com/parts/valve'))).map(hit => hit.chunk.id)).toEqual(['valve']);
+    expect(await searchLexical('kb', 'gasket')).toEqual([]);
+  });
+
+  it('reuses the index until the collection changes', async () => {
+    store.chunks = [chunk('faq', 'FAQ', 'Opening hours')];
+    await searchLexical('cached_kb', 'hours');
+    await searchLexical('cached_kb', 'opening');
+    expect(store.listChunks).toHaveBeenCalledTimes(1);
+
+    store.version += 1;
+    await searchLexical('cached_kb', 'hours');
+    expect(store.listChunks).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,128 @@
+import { getCollectionVersion, getVectorStore } from '@/lib/vector-store';
+import { FilterExpression, matchesFilter } from '@/lib/filters';
+import type { IndexedChunk } from '@/lib/vector-store';
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Titles are short and usually name the thing a page is about, so their terms count extra
+const TITLE_WEIGHT = 3;
+
+interface LexicalIndex {
+  version: number;
+  chunks: IndexedChunk[];
+  postings: Map<string, Array<{ doc: number; tf: number }>>;
+  docLengths: number[];
+  averageDocLength: number;
+}
+
+export interface LexicalHit {
+  chunk: IndexedChunk;
+  score: number;
+}
+
+// Keep indexes on globalThis so they survive module reloads in development
+const globalForIndex = globalThis as unknown as {
+  lexicalIndexes?: Map<string, LexicalIndex>;
+};
+const indexes = globalForIndex.lexicalIndexes ?? (globalForIndex.lexicalIndexes = new Map());
+
+// Split text into lowercase terms. Identifiers like "AB-1234" or "v2.1" are kept whole as well as
+// split into parts, so exact SKUs and model numbers match strongly.
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const terms = lower.match(/[\p{L}\p{N}]+/gu) || [];
+  const compounds = (lower.match(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)+/gu) || [])
+    .filter(compound => /\d/.test(compound));
+  return [...terms, ...compounds];
+}
+
+function buildIndex(chunks: IndexedChunk[], version: number): LexicalIndex {
+  const postings = new Map<string, Array<{ doc: number; tf: number }>>();
+  const docLengths: number[] = [];
+
+  chunks.forEach((chunk, doc) => {
+    const termCounts = new Map<string, number>();
+    const addTerms = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        termCounts.set(term, (termCounts.get(term) || 0) + weight);
+      }
+    };
+    addTerms(chunk.title, TITLE_WEIGHT);
+    addTerms(chunk.url.replace(/^https?:\/\//, ''), 1);
+    addTerms(chunk.content, 1);
+
+    let length = 0;
+    for (const [term, tf] of termCounts) {
+      length += tf;
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push({ doc, tf });
+    }
+    docLengths.push(length);
+  });
+
+  const totalLength = docLengths.reduce((sum, length) => sum + length, 0);
+  return {
+    version,
+    chunks,
+    postings,
+    docLengths,
+    averageDocLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+}
+
+// Get the keyword index for a collection, rebuilding it after the collection has been written to.
+// A rebuild reads every chunk through listChunks, so it costs a full collection scan; it only happens
+// on the first search after a write. Staleness is judged by this process's change counter (see
+// getCollectionVersion), so writes made by other processes are missed until the next local write.
+async function getIndex(collectionName: string): Promise<LexicalIndex> {
+  const version = getCollectionVersion(collectionName);
+  const cached = indexes.get(collectionName);
+  if (cached && cached.version === version) {
+    return cached;
+  }
+
+  const chunks = await getVectorStore().listChunks(collectionName);
+  const index = buildIndex(chunks, version);
+  indexes.set(collectionName, index);
+  console.log(`Built keyword index for ${collectionName}: ${chunks.length} chunks, ${index.postings.size} terms`);
+  return index;
+}
+
+// Rank chunks by BM25 over title, URL and content; only chunks matching at least one term are returned
+export async function searchLexical(
+  collectionName: string,
+  query: string,
+  limit: number = 10,
+  filters?: FilterExpression
+): Promise<LexicalHit[]> {
+  const index = await getIndex(collectionName);
+  const documentCount = index.chunks.length;
+  if (documentCount === 0) {
+    return [];
+  }
+
+  const scores = new Map<number, number>();
+  for (const term of new Set(tokenize(query))) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+
+    const idf = Math.log(1 + (documentCount - list.length + 0.5) / (list.length + 0.5));
+    for (const { doc, tf } of list) {
+      const lengthNorm = 1 - B + B * (index.docLengths[doc] / index.averageDocLength);
+      const termScore = idf * (tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+      scores.set(doc, (scores.get(doc) || 0) + termScore);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([doc, score]) => ({ chunk: index.chunks[doc], score }))
+    .filter(({ chunk }) => !filters || matchesFilter(filters, chunk))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateText, getLLMProviders, LLMProvider, streamText } from '@/lib/llm-providers';
+
+let primary: LLMProvider;
+let stub: LLMProvider;
+
+const rateLimitError = () => Object.assign(new Error('Too many requests'), { status: 429 });
+
+const collect = async (tokens: AsyncIterable<string>) => {
+  let text = '';
+  for await (const token of tokens) {
+    text += token;
+  }
+  return text;
+};
+
+beforeAll(() => {
+  // OpenAI first with the deterministic stub behind it; OpenAI is never actually called
+  vi.stubEnv('LLM_PROVIDER', 'openai');
+  vi.stubEnv('LLM_FALLBACK_PROVIDER', 'stub');
+  [primary, stub] = getLLMProviders();
+  vi.unstubAllEnvs();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  (globalThis as unknown as { llmRateLimitedUntil: Map<string, number> }).llmRateLimitedUntil.clear();
+});
+
+describe('generateText', () => {
+  it('answers from the primary provider when it works', async () => {
+    vi.spyOn(primary, 'generate').mockResolvedValue('Primary answer');
+    expect(await generateText('Hello')).toEqual({ text: 'Primary answer', provider: 'openai', model: primary.model });
+  });
+
+  it('falls back to the stub provider when the primary fails', async () => {
+    vi.spyOn(primary, 'generate').mockRejectedValue(new Error('Service unavailable'));
+
+    const response = await generateText('Hello');
+
+    expect(response).toEqual({ text: await stub.generate('Hello'), provider: 'stub', model: 'stub-v1' });
+    expect(response.text).toMatch(/^Stub response [0-9a-f]{8}: Hello$/);
+  });
+
+  it('skips a rate-limited provider until its cooldown has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const generate = vi.spyOn(primary, 'generate').mockRejectedValueOnce(rateLimitError());
+
+    expect((await generateText('Hello')).provider).toBe('stub');
+    expect((await generateText('Hello')).provider).toBe('stub');
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    generate.mockResolvedValue('Primary answer');
+    vi.advanceTimersByTime(60001);
+    expect((await generateText('Hello')).provider).toBe('openai');
+  });
+
+  it('does not cool down after errors that are not rate limits', async () => {
+    const generate = vi.spyOn(primary, 'generate').mockRejectedValueOnce(new Error('Service unavailable'));
+    await generateText('Hello');
+
+    generate.mockResolvedValue('Primary answer');
+    expect((await generateText('Hello')).provider).toBe('openai');
+  });
+
+  it('still tries the last provider when it is rate limited', async () => {
+    vi.spyOn(primary, 'generate').mockRejectedValue(new Error('Service unavailable'));
+    const fallback = vi.spyOn(stub, 'generate').mockRejectedValueOnce(rateLimitError());
+
+    await expect(generateText('Hello')).rejects.toThrow('Too many requests');
+    expect((await generateText('Hello')).provider).toBe('stub');
+    expect(fallback).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('streamText', () => {
+  it('falls back to the stub provider when the primary fails before its first token', async () => {
+    vi.spyOn(primary, 'stream').mockImplementation(async function* () {
+      throw rateLimitError();
+    });
+
+    const stream = await streamText('Hello');
+
+    expect(stream.provider).toBe('stub');
+    expect(await collect(stream.tokens)).toBe(await stub.generate('Hello'));
+    expect((await streamText('Hello')).provider).toBe('stub');
+    expect(primary.stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('surfaces errors after the first token to the consumer instead of falling back', async () => {
+    vi.spyOn(primary, 'stream').mockImplementation(async function* () {
+      yield 'Partial ';
+      throw new Error('Connection reset');
+    });
+
+    const stream = await streamText('Hello');
+
+    expect(stream.provider).toBe('openai');
+    await expect(collect(stream.tokens)).rejects.toThrow('Connection reset');
+  });
+});
@@ -0,0 +1,252 @@
+import { createHash } from 'crypto';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { Runnable } from '@langchain/core/runnables';
+import OpenAI from 'openai';
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generate(prompt: string): Promise<string>;
+  stream(prompt: string, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+// Text generated by an LLM, along with which provider and model produced it
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+// Streamed LLM output, along with which provider and model is producing it
+export interface LLMStream {
+  tokens: AsyncIterable<string>;
+  provider: string;
+  model: string;
+}
+
+const TEMPERATURE = 0.7;
+const MAX_OUTPUT_TOKENS = 2048;
+
+// Retries per provider before falling back; kept low so the fallback kicks in quickly
+const MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES || 2);
+
+// How long to skip a provider after it reports a rate limit
+const RATE_LIMIT_COOLDOWN_MS = Number(process.env.LLM_RATE_LIMIT_COOLDOWN_MS || 60000);
+
+// Google Gemini chat model
+function createGeminiProvider(): LLMProvider {
+  const model = process.env.GEMINI_CHAT_MODEL || 'gemini-2.5-flash'; // Available in v1beta
+  let chain: Runnable<string, string> | null = null;
+
+  // Created lazily so the API key is only required when Gemini is actually used
+  const getChain = () => {
+    if (!chain) {
+      const llm = new ChatGoogleGenerativeAI({
+        apiKey: process.env.GOOGLE_API_KEY,
+        model,
+        temperature: TEMPERATURE,
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        maxRetries: MAX_RETRIES,
+      });
+      chain = llm.pipe(new StringOutputParser());
+    }
+    return chain;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    generate: prompt => getChain().invoke(prompt),
+    async *stream(prompt, signal) {
+      yield* await getChain().stream(prompt, { signal });
+    },
+  };
+}
+
+// OpenAI chat completions
+function createOpenAIProvider(): LLMProvider {
+  const model = process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini';
+  let client: OpenAI | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: MAX_RETRIES });
+    }
+    return client;
+  };
+
+  return {
+    name: 'openai',
+    model,
+    async generate(prompt) {
+      const completion = await getClient().chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: TEMPERATURE,
+        max_tokens: MAX_OUTPUT_TOKENS,
+      });
+      return completion.choices[0]?.message?.content || '';
+    },
+    async *stream(prompt, signal) {
+      const completion = await getClient().chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: TEMPERATURE,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        stream: true,
+      }, { signal });
+      for await (const chunk of completion) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          yield token;
+        }
+      }
+    },
+  };
+}
+
+// Deterministic offline provider for local testing: the same prompt always gives the same answer
+function createStubProvider(): LLMProvider {
+  const respond = (prompt: string) => {
+    const digest = createHash('sha256').update(prompt).digest('hex').substring(0, 8);
+    const excerpt = prompt.replace(/\s+/g, ' ').trim().substring(0, 200);
+    return `Stub response ${digest}: ${excerpt}`;
+  };
+
+  return {
+    name: 'stub',
+    model: 'stub-v1',
+    generate: async prompt => respond(prompt),
+    async *stream(prompt, signal) {
+      // Emit word by word so streaming clients can be exercised offline
+      for (const token of respond(prompt).split(/(?<= )/)) {
+        signal?.throwIfAborted();
+        yield token;
+      }
+    },
+  };
+}
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'openai':
+      return createOpenAIProvider();
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}" (expected gemini, openai or stub)`);
+  }
+}
+
+let providers: LLMProvider[] | null = null;
+
+// Get the configured providers in order of preference: LLM_PROVIDER (default gemini), then
+// LLM_FALLBACK_PROVIDER (default openai when OPENAI_API_KEY is set; "none" disables fallback)
+export function getLLMProviders(): LLMProvider[] {
+  if (providers) {
+    return providers;
+  }
+
+  const primary = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const defaultFallback = process.env.OPENAI_API_KEY && primary !== 'openai' ? 'openai' : 'none';
+  const fallback = (process.env.LLM_FALLBACK_PROVIDER || defaultFallback).toLowerCase();
+
+  providers = [createProvider(primary)];
+  if (fallback !== 'none' && fallback !== primary) {
+    providers.push(createProvider(fallback));
+  }
+
+  console.log(`Using LLM providers: ${providers.map(provider => `${provider.name} (${provider.model})`).join(' → ')}`);
+  return providers;
+}
+
+// Keep rate limit cooldowns on globalThis so they survive module reloads in development
+const globalForLLM = globalThis as unknown as {
+  llmRateLimitedUntil?: Map<string, number>;
+};
+const rateLimitedUntil = globalForLLM.llmRateLimitedUntil ?? (globalForLLM.llmRateLimitedUntil = new Map());
+
+function isRateLimitError(error: unknown): boolean {
+  const status = (error as any)?.status ?? (error as any)?.response?.status;
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return status === 429 || message.includes('429') || message.includes('rate limit') || message.includes('quota');
+}
+
+// Generate text with the first available provider, falling back to the next one on errors or rate limits
+export async function generateText(prompt: string): Promise<LLMResponse> {
+  const candidates = getLLMProviders();
+  let lastError: unknown = null;
+
+  for (const [index, provider] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+
+    // Skip providers that were recently rate limited, unless nothing else is left to try
+    if ((rateLimitedUntil.get(provider.name) || 0) > Date.now() && !isLast) {
+      console.log(`Skipping rate-limited LLM provider ${provider.name}`);
+      continue;
+    }
+
+    try {
+      const text = await provider.generate(prompt);
+      return { text, provider: provider.name, model: provider.model };
+    } catch (error) {
+      lastError = error;
+      if (isRateLimitError(error)) {
+        rateLimitedUntil.set(provider.name, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+      }
+      console.error(`LLM provider ${provider.name} failed${isLast ? '' : ', trying fallback'}:`, error);
+    }
+  }
+
+  throw lastError;
+}
+
+// Stream text from the first available provider. Falling back is only possible until the first
+// token arrives; after that, errors surface to the consumer of the stream.
+export async function streamText(prompt: string, signal?: AbortSignal): Promise<LLMStream> {
+  const candidates = getLLMProviders();
+  let lastError: unknown = null;
+
+  for (const [index, provider] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+
+    if ((rateLimitedUntil.get(provider.name) || 0) > Date.now() && !isLast) {
+      console.log(`Skipping rate-limited LLM provider ${provider.name}`);
+      continue;
+    }
+
+    try {
+      const iterator = provider.stream(prompt, signal)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+
+      const tokens = (async function* () {
+        try {
+          if (!first.done) {
+            yield first.value;
+          }
+          for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+            yield next.value;
+          }
+        } finally {
+          // Release the underlying request if the consumer stops early
+          await iterator.return?.();
+        }
+      })();
+      return { tokens, provider: provider.name, model: provider.model };
+    } catch (error) {
+      lastError = error;
+      if (signal?.aborted) {
+        break;
+      }
+      if (isRateLimitError(error)) {
+        rateLimitedUntil.set(provider.name, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+      }
+      console.error(`LLM provider ${provider.name} failed${isLast ? '' : ', trying fallback'}:`, error);
+    }
+  }
+
+  throw lastError;
+}
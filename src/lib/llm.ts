@@ -1,29 +1,19 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { PromptTemplate } from '@langchain/core/prompts';
-import { StringOutputParser } from '@langchain/core/output_parsers';
-
-// Initialize Google Gemini LLM
-const llm = new ChatGoogleGenerativeAI({
-  apiKey: process.env.GOOGLE_API_KEY,
-  model: 'gemini-2.5-flash', // Use gemini-2.5-flash which is available in v1beta
-  temperature: 0.7,
-  maxOutputTokens: 2048,
-});
-
-// Output parser to get clean string responses
-const outputParser = new StringOutputParser();
+import { generateText, LLMResponse, LLMStream, streamText } from '@/lib/llm-providers';
 
 // Template for answering questions based on website content
 const qaTemplate = PromptTemplate.fromTemplate(`
 You are an AI assistant that helps users understand website content. You have access to relevant content chunks from a website that the user is asking about.
 
-Context from the website:
+Context from the website (numbered sources):
 {context}
 
 User Question: {question}
 
 Instructions:
 - Answer the question based on the provided context from the website
+- Cite the numbered source for every claim using square brackets, e.g. [1] or [2][3], right after the claim
+- Only cite sources that actually support the claim, and never invent source numbers
 - If the context doesn't contain enough information to answer the question, say so clearly
 - Be concise but informative
 - Use a conversational tone
@@ -48,21 +38,46 @@ Create a comprehensive but concise summary of this website content. Include:
 Summary:
 `);
 
+// A retrieved chunk passed to the LLM as a numbered, citable source
+export interface ContextChunk {
+  content: string;
+  url: string;
+  title: string;
+  section?: string | null; // Heading path within the page, e.g. "Product > Pricing"
+}
+
+// Build the question-answering prompt, numbering chunks from 1 so the answer can cite them
+async function buildAnswerPrompt(question: string, relevantContent: ContextChunk[]): Promise<string> {
+  const context = relevantContent
+    .map((chunk, index) => `[${index + 1}] ${chunk.title || 'Untitled'}${chunk.section ? ` › ${chunk.section}` : ''} (${chunk.url})\n${chunk.content}`)
+    .join('\n\n---\n\n');
+  
+  return qaTemplate.format({
+    context,
+    question,
+  });
+}
+
 // Function to answer questions based on website content
-export async function answerQuestion(question: string, relevantContent: string[]): Promise<string> {
+export async function answerQuestion(question: string, relevantContent: ContextChunk[]): Promise<LLMResponse> {
   try {
-    const context = relevantContent.join('\n\n---\n\n');
-    
-    const chain = qaTemplate.pipe(llm).pipe(outputParser);
-    
-    const response = await chain.invoke({
-      context,
-      question,
-    });
-    
-    return response;
+    return await generateText(await buildAnswerPrompt(question, relevantContent));
   } catch (error) {
-    console.error('Error answering question with Gemini:', error);
+    console.error('Error answering question:', error);
+    throw error;
+  }
+}
+
+// Function to stream an answer token by token; aborting the signal stops generation
+export async function streamAnswer(
+  question: string,
+  relevantContent: ContextChunk[],
+  signal?: AbortSignal
+): Promise<LLMStream> {
+  try {
+    return await streamText(await buildAnswerPrompt(question, relevantContent), signal);
+  } catch (error) {
+    console.error('Error streaming answer:', error);
     throw error;
   }
 }
@@ -70,32 +85,30 @@ export async function answerQuestion(question: string, relevantContent: string[]
 // Function to summarize website content
 export async function summarizeContent(content: string): Promise<string> {
   try {
-    const chain = summaryTemplate.pipe(llm).pipe(outputParser);
-    
-    const response = await chain.invoke({
+    const prompt = await summaryTemplate.format({
       content: content.substring(0, 10000), // Limit content length for summary
     });
     
-    return response;
+    const response = await generateText(prompt);
+    return response.text;
   } catch (error) {
-    console.error('Error summarizing content with Gemini:', error);
+    console.error('Error summarizing content:', error);
     throw error;
   }
 }
 
-// Function to generate a conversational response for voice chat
-export async function generateVoiceResponse(
+// Build the voice chat prompt, including the last few turns of the conversation
+async function buildVoicePrompt(
   userMessage: string, 
   relevantContent: string[], 
-  conversationHistory: string[] = []
+  conversationHistory: string[]
 ): Promise<string> {
-  try {
-    const context = relevantContent.join('\n\n---\n\n');
-    const history = conversationHistory.length > 0 
-      ? `Previous conversation:\n${conversationHistory.slice(-4).join('\n')}\n\n` 
-      : '';
-    
-    const voiceTemplate = PromptTemplate.fromTemplate(`
+  const context = relevantContent.join('\n\n---\n\n');
+  const history = conversationHistory.length > 0 
+    ? `Previous conversation:\n${conversationHistory.slice(-4).join('\n')}\n\n` 
+    : '';
+  
+  const voiceTemplate = PromptTemplate.fromTemplate(`
 You are a helpful AI assistant having a voice conversation with a user about a website they're interested in. 
 
 ${history}Website Context:
@@ -112,17 +125,38 @@ Instructions:
 
 Response:
 `);
-    
-    const chain = voiceTemplate.pipe(llm).pipe(outputParser);
-    
-    const response = await chain.invoke({
-      context,
-      message: userMessage,
-    });
-    
-    return response;
+  
+  return voiceTemplate.format({
+    context,
+    message: userMessage,
+  });
+}
+
+// Function to generate a conversational response for voice chat
+export async function generateVoiceResponse(
+  userMessage: string, 
+  relevantContent: string[], 
+  conversationHistory: string[] = []
+): Promise<LLMResponse> {
+  try {
+    return await generateText(await buildVoicePrompt(userMessage, relevantContent, conversationHistory));
   } catch (error) {
-    console.error('Error generating voice response with Gemini:', error);
+    console.error('Error generating voice response:', error);
+    throw error;
+  }
+}
+
+// Function to stream a voice chat response token by token
+export async function streamVoiceResponse(
+  userMessage: string, 
+  relevantContent: string[], 
+  conversationHistory: string[] = [],
+  signal?: AbortSignal
+): Promise<LLMStream> {
+  try {
+    return await streamText(await buildVoicePrompt(userMessage, relevantContent, conversationHistory), signal);
+  } catch (error) {
+    console.error('Error streaming voice response:', error);
     throw error;
   }
 }
@@ -148,12 +182,12 @@ KEY_POINTS: [List 3-5 key points, separated by | ]
 Response:
 `);
     
-    const chain = extractTemplate.pipe(llm).pipe(outputParser);
-    
-    const response = await chain.invoke({
+    const prompt = await extractTemplate.format({
       content: content.substring(0, 8000), // Limit content length
     });
     
+    const { text: response } = await generateText(prompt);
+    
     // Parse the structured response
     const lines = response.split('\n');
     const title = lines.find(line => line.startsWith('TITLE:'))?.replace('TITLE:', '').trim() || 'Website';
@@ -167,7 +201,7 @@ Response:
       keyPoints,
     };
   } catch (error) {
-    console.error('Error extracting key info with Gemini:', error);
+    console.error('Error extracting key info:', error);
     return {
       title: 'Website',
       description: 'Unable to extract description',
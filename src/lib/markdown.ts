@@ -0,0 +1,127 @@
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+// Elements rendered as separate blocks; anything else is treated as inline text
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'nav', 'aside', 'blockquote', 'figure',
+  'figcaption', 'form', 'dl', 'dt', 'dd', 'address', 'details', 'summary', 'fieldset', 'body', 'html',
+]);
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Render the inline content of a node: text and inline elements, with code spans kept
+function renderInline($: CheerioAPI, node: AnyNode): string {
+  if (node.type === 'text') {
+    return node.data || '';
+  }
+  if (node.type !== 'tag') {
+    return '';
+  }
+  const tag = node.name.toLowerCase();
+  if (tag === 'br') {
+    return '\n';
+  }
+  const inner = $(node).contents().toArray().map(child => renderInline($, child)).join('');
+  return tag === 'code' && inner.trim() ? `\`${inner.trim()}\`` : inner;
+}
+
+function renderTable($: CheerioAPI, table: Element): string {
+  const rows = $(table).find('tr').toArray()
+    .map(row => $(row).children('th, td').toArray().map(cell => collapseWhitespace(renderInline($, cell)).replace(/\|/g, '\\|')))
+    .filter(cells => cells.length > 0);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(cells => cells.length));
+  const lines = rows.map(cells => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`);
+  // The first row acts as the header
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+  return lines.join('\n');
+}
+
+function renderList($: CheerioAPI, list: Element, depth: number): string {
+  const ordered = list.name.toLowerCase() === 'ol';
+  return $(list).children('li').toArray().map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '-';
+    const nested: string[] = [];
+    const text = $(item).contents().toArray().map(child => {
+      if (child.type === 'tag' && ['ul', 'ol'].includes(child.name.toLowerCase())) {
+        nested.push(renderList($, child, depth + 1));
+        return '';
+      }
+      return child.type === 'tag' && BLOCK_TAGS.has(child.name.toLowerCase())
+        ? ` ${renderInline($, child)} `
+        : renderInline($, child);
+    }).join('');
+    return [`${'  '.repeat(depth)}${marker} ${collapseWhitespace(text)}`, ...nested].join('\n');
+  }).join('\n');
+}
+
+// Render a node as a list of Markdown blocks (headings, paragraphs, lists, tables, code)
+function renderBlocks($: CheerioAPI, node: AnyNode, blocks: string[], inline: string[]) {
+  const flushInline = () => {
+    const text = inline.join('').split('\n').map(collapseWhitespace).filter(Boolean).join('\n');
+    if (text) blocks.push(text);
+    inline.length = 0;
+  };
+
+  if (node.type === 'text') {
+    inline.push(node.data || '');
+    return;
+  }
+  if (node.type !== 'tag') {
+    // Documents without a <body> are rendered from the root
+    if (node.type === 'root') {
+      $(node).contents().toArray().forEach(child => renderBlocks($, child, blocks, inline));
+    }
+    return;
+  }
+
+  const tag = node.name.toLowerCase();
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    flushInline();
+    const text = collapseWhitespace(renderInline($, node));
+    if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+  } else if (tag === 'pre') {
+    flushInline();
+    const code = $(node).text().replace(/^\n+|\s+$/g, '');
+    if (code) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+  } else if (tag === 'table') {
+    flushInline();
+    const table = renderTable($, node);
+    if (table) blocks.push(table);
+  } else if (tag === 'ul' || tag === 'ol') {
+    flushInline();
+    const list = renderList($, node, 0);
+    if (list.trim()) blocks.push(list);
+  } else if (tag === 'hr') {
+    flushInline();
+  } else if (BLOCK_TAGS.has(tag) || tag === 'li' || tag === 'tr') {
+    flushInline();
+    for (const child of $(node).contents().toArray()) {
+      renderBlocks($, child, blocks, inline);
+    }
+    flushInline();
+  } else {
+    inline.push(renderInline($, node));
+  }
+}
+
+// Convert the readable part of a parsed HTML document to Markdown, keeping headings, lists,
+// tables and code blocks so chunking can follow the page structure. Non-content elements
+// (scripts, styles, ...) should be removed beforehand. Renders the whole body unless a content
+// root (e.g. the main article) is given.
+export function htmlToMarkdown($: CheerioAPI, contentRoot?: AnyNode | null): string {
+  const root = contentRoot || $('body')[0] || $.root()[0];
+  const blocks: string[] = [];
+  const inline: string[] = [];
+  renderBlocks($, root, blocks, inline);
+
+  const text = inline.join('').split('\n').map(collapseWhitespace).filter(Boolean).join('\n');
+  if (text) blocks.push(text);
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,170 @@
+import type { Browser } from 'puppeteer-core';
+import { fetchWithTimeout } from '@/lib/http';
+
+// http: plain HTTP requests; browser: render pages in headless Chromium; auto: plain HTTP, falling
+// back to the browser for pages whose static HTML has too little text (single-page apps)
+export type FetcherMode = 'http' | 'browser' | 'auto';
+
+// In auto mode, pages with less readable text than this are fetched again with the browser
+export const AUTO_BROWSER_MIN_TEXT_LENGTH = Number(process.env.CRAWL_BROWSER_MIN_TEXT_LENGTH || 200);
+
+// Path to a locally installed Chromium or Chrome; the browser fetcher is unavailable without it
+const CHROMIUM_PATH = process.env.CHROMIUM_PATH || process.env.PUPPETEER_EXECUTABLE_PATH || '';
+
+// Resource types the browser doesn't need to load to render the page text
+const BLOCKED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+export interface FetchedPage {
+  finalUrl: string;
+  contentType: string;
+  html: string | null; // null for responses that aren't HTML
+}
+
+export interface PageFetchOptions {
+  timeoutMs: number;
+  userAgent: string;
+  signal?: AbortSignal;
+}
+
+export interface PageFetcher {
+  name: 'http' | 'browser';
+  fetchPage(url: string, options: PageFetchOptions): Promise<FetchedPage>;
+  close(): Promise<void>;
+}
+
+function isHtml(contentType: string): boolean {
+  return contentType.includes('text/html') || contentType.includes('application/xhtml');
+}
+
+// Plain HTTP fetcher: the server's HTML as-is, without running scripts
+export function createHttpFetcher(): PageFetcher {
+  return {
+    name: 'http',
+    async fetchPage(url, options) {
+      const response = await fetchWithTimeout(url, {
+        ...options,
+        accept: 'text/html,application/xhtml+xml',
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const finalUrl = response.url || url;
+      if (!isHtml(contentType)) {
+        await response.body?.cancel();
+        return { finalUrl, contentType: contentType.split(';')[0].trim(), html: null };
+      }
+
+      return {
+        finalUrl,
+        contentType: contentType.split(';')[0].trim(),
+        html: await response.text(),
+      };
+    },
+    close: async () => {},
+  };
+}
+
+// Whether a Chromium executable is configured for the browser fetcher
+export function isBrowserFetcherAvailable(): boolean {
+  return !!CHROMIUM_PATH;
+}
+
+// Headless browser fetcher: loads the page in Chromium, runs its scripts and returns the rendered
+// DOM. The browser is started on first use and shared by all pages of a crawl until close().
+export function createBrowserFetcher(): PageFetcher {
+  let browser: Promise<Browser> | null = null;
+
+  const getBrowser = () => {
+    if (!CHROMIUM_PATH) {
+      throw new Error('The browser fetcher needs a local Chromium; set CHROMIUM_PATH');
+    }
+    if (!browser) {
+      console.log(`Launching headless browser (${CHROMIUM_PATH})...`);
+      // Loaded on demand so crawls that never render pages don't pay for it
+      browser = import('puppeteer-core').then(puppeteer => puppeteer.launch({
+        executablePath: CHROMIUM_PATH,
+        headless: true,
+        args: ['--no-sandbox', '--disable-dev-shm-usage'],
+      }));
+      browser.catch(() => {
+        browser = null;
+      });
+    }
+    return browser;
+  };
+
+  return {
+    name: 'browser',
+    async fetchPage(url, options) {
+      options.signal?.throwIfAborted();
+      const page = await (await getBrowser()).newPage();
+      const closePage = () => {
+        page.close().catch(() => {});
+      };
+      options.signal?.addEventListener('abort', closePage, { once: true });
+
+      try {
+        await page.setUserAgent(options.userAgent);
+        await page.setRequestInterception(true);
+        page.on('request', request => {
+          if (BLOCKED_RESOURCE_TYPES.has(request.resourceType())) {
+            request.abort().catch(() => {});
+          } else {
+            request.continue().catch(() => {});
+          }
+        });
+
+        const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: options.timeoutMs });
+        options.signal?.throwIfAborted();
+        if (!response) {
+          throw new Error('No response');
+        }
+        if (!response.ok()) {
+          throw new Error(`HTTP ${response.status()}`);
+        }
+
+        const contentType = response.headers()['content-type'] || '';
+        return {
+          finalUrl: page.url() || url,
+          contentType: contentType.split(';')[0].trim(),
+          html: isHtml(contentType) ? await page.content() : null,
+        };
+      } finally {
+        options.signal?.removeEventListener('abort', closePage);
+        closePage();
+      }
+    },
+    async close() {
+      if (browser) {
+        const launched = browser;
+        browser = null;
+        await launched
+          .then(instance => instance.close())
+          .catch(error => console.error('Error closing headless browser:', error));
+      }
+    },
+  };
+}
+
+// Validate a per-crawl fetcher setting; throws with a message suitable for a 400 response
+export function parseFetcherMode(value: unknown, name = 'fetcher'): FetcherMode | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (value !== 'http' && value !== 'browser' && value !== 'auto') {
+    throw new Error(`Unknown ${name} "${value}" (expected http, browser or auto)`);
+  }
+  if (value === 'browser' && !isBrowserFetcherAvailable()) {
+    throw new Error('The browser fetcher needs a local Chromium; set CHROMIUM_PATH');
+  }
+  return value;
+}
+
+// Fetcher for crawls that don't choose one: CRAWL_FETCHER, or auto. Checked when a crawl starts
+// rather than at load, so a bad setting fails the crawl instead of every import of this module.
+export function getDefaultFetcherMode(): FetcherMode {
+  return parseFetcherMode(process.env.CRAWL_FETCHER, 'CRAWL_FETCHER') ?? 'auto';
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getLLMProviders, LLMProvider } from '@/lib/llm-providers';
+import { cleanRewrite, rewriteQuery } from '@/lib/query-rewriter';
+
+const history = ['User: What plans do you offer?', 'Assistant: Basic and Pro.'];
+let stub: LLMProvider;
+
+beforeAll(() => {
+  // The deterministic offline provider, with no fallback behind it
+  vi.stubEnv('LLM_PROVIDER', 'stub');
+  vi.stubEnv('LLM_FALLBACK_PROVIDER', 'none');
+  [stub] = getLLMProviders();
+  vi.unstubAllEnvs();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('cleanRewrite', () => {
+  it('strips labels and quotes and keeps the first non-empty line', () => {
+    expect(cleanRewrite('Standalone query: "Pro plan price"')).toBe('Pro plan price');
+    expect(cleanRewrite('\n\n  Rewritten question: “How much is the Pro plan?”\nBecause the user asked')).toBe('How much is the Pro plan?');
+    expect(cleanRewrite('Pro plan price')).toBe('Pro plan price');
+    expect(cleanRewrite('  \n ')).toBe('');
+  });
+});
+
+describe('rewriteQuery', () => {
+  it('rewrites a follow-up with the conversation, giving the same query for the same input', async () => {
+    const first = await rewriteQuery('How much is it?', history, true);
+    const second = await rewriteQuery('How much is it?', history, true);
+
+    expect(stub.name).toBe('stub');
+    expect(first.rewritten).toBe(true);
+    expect(first.query).toMatch(/^Stub response [0-9a-f]{8}: Rewrite the user's follow-up question/);
+    expect(second).toEqual(first);
+  });
+
+  it('uses the cleaned-up reply as the query', async () => {
+    vi.spyOn(stub, 'generate').mockResolvedValue('Query: "How much is the Pro plan?"');
+    expect(await rewriteQuery('How much is it?', history, true)).toEqual({ query: 'How much is the Pro plan?', rewritten: true });
+  });
+
+  it('does not call the LLM without history or when rewriting is off', async () => {
+    const generate = vi.spyOn(stub, 'generate');
+
+    expect(await rewriteQuery('How much is Pro?', [], true)).toEqual({ query: 'How much is Pro?', rewritten: false });
+    expect(await rewriteQuery('How much is it?', history, false)).toEqual({ query: 'How much is it?', rewritten: false });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the original question when the LLM fails or gives nothing usable', async () => {
+    const generate = vi.spyOn(stub, 'generate');
+
+    generate.mockRejectedValueOnce(new Error('Service unavailable'));
+    expect(await rewriteQuery('How much is it?', history, true)).toEqual({ query: 'How much is it?', rewritten: false });
+
+    generate.mockResolvedValueOnce('  \n');
+    expect(await rewriteQuery('How much is it?', history, true)).toEqual({ query: 'How much is it?', rewritten: false });
+
+    generate.mockResolvedValueOnce('The Pro plan costs twenty dollars a month. '.repeat(20));
+    expect(await rewriteQuery('How much is it?', history, true)).toEqual({ query: 'How much is it?', rewritten: false });
+  });
+
+  it('reports an unchanged standalone question as not rewritten', async () => {
+    vi.spyOn(stub, 'generate').mockResolvedValue('How much is the Pro plan?');
+    expect(await rewriteQuery(' How much is the Pro plan? ', history, true)).toEqual({ query: 'How much is the Pro plan?', rewritten: false });
+  });
+});
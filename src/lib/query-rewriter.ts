@@ -0,0 +1,89 @@
+import { generateText } from '@/lib/llm-providers';
+
+// Follow-up questions are rewritten into standalone queries by default; requests can turn it off
+const DEFAULT_QUERY_REWRITE = process.env.QUERY_REWRITE !== 'false';
+
+// Only the most recent lines of the conversation are sent to the LLM
+const MAX_HISTORY_LINES = Number(process.env.QUERY_REWRITE_MAX_HISTORY || 6);
+
+// Each earlier message is truncated to keep the prompt small
+const MAX_LINE_LENGTH = 500;
+
+// Rewrites longer than this are assumed to be an answer rather than a query
+const MAX_QUERY_LENGTH = 500;
+
+export interface RewrittenQuery {
+  query: string; // The query to retrieve with: the rewrite, or the original question
+  rewritten: boolean; // Whether the query differs from the original question
+}
+
+// Parse a per-request rewrite setting (true/false); anything missing falls back to QUERY_REWRITE
+export function parseRewriteOption(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_QUERY_REWRITE;
+  }
+  return value !== false && value !== 'false';
+}
+
+// Strip labels and quotes the model sometimes wraps around the query
+export function cleanRewrite(text: string): string {
+  const firstLine = text.trim().split('\n').find(line => line.trim()) || '';
+  return firstLine
+    .replace(/^(standalone (question|query)|rewritten (question|query)|query|question)\s*:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
+}
+
+// Condense a follow-up question and the conversation before it ("User: ..." / "Assistant: ..."
+// lines) into a standalone search query, so "how much does it cost?" retrieves the pricing of
+// whatever was discussed. Returns the original question when there is no history, rewriting is
+// off, or the LLM call fails.
+export async function rewriteQuery(
+  question: string,
+  conversationHistory: string[],
+  enabled: boolean = DEFAULT_QUERY_REWRITE
+): Promise<RewrittenQuery> {
+  if (!enabled || conversationHistory.length === 0) {
+    return { query: question, rewritten: false };
+  }
+
+  const history = conversationHistory
+    .slice(-MAX_HISTORY_LINES)
+    .map(line => line.replace(/\s+/g, ' ').substring(0, MAX_LINE_LENGTH))
+    .join('\n');
+
+  const prompt = `
+Rewrite the user's follow-up question as a standalone search query for a website's knowledge base.
+
+Conversation so far:
+${history}
+
+Follow-up question: ${question}
+
+Instructions:
+- Replace pronouns and references like "it", "they" or "that plan" with what they refer to in the conversation
+- Keep the names, products and terms the user mentioned
+- If the question is already standalone, return it unchanged
+- Do not answer the question
+
+Return only the standalone query on a single line.
+`;
+
+  try {
+    const { text } = await generateText(prompt);
+    const query = cleanRewrite(text);
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      console.warn(`Ignoring unusable query rewrite: "${text.substring(0, 100)}"`);
+      return { query: question, rewritten: false };
+    }
+
+    const rewritten = query !== question.trim();
+    if (rewritten) {
+      console.log(`Rewrote follow-up "${question}" as "${query}"`);
+    }
+    return { query, rewritten };
+  } catch (error) {
+    console.error('Error rewriting query, using the original question:', error);
+    return { query: question, rewritten: false };
+  }
+}
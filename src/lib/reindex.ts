@@ -0,0 +1,114 @@
+import { createChunkId, generateEmbeddings, hashContent } from '@/lib/embeddings';
+import { getEmbeddingSpec } from '@/lib/embedding-providers';
+import { getVectorStore } from '@/lib/vector-store';
+import type { CollectionEmbeddingInfo, IndexedChunk, StoredChunkInput } from '@/lib/vector-store';
+
+// Chunks re-embedded per provider call
+const REINDEX_BATCH_SIZE = 50;
+
+// Collections being re-indexed. Writes to them while the copy is built would be lost when it is
+// swapped in, so crawls and uploads check this and are turned away. Kept on globalThis so module
+// reloads in development don't forget a running re-index.
+const globalForReindex = globalThis as unknown as {
+  reindexingCollections?: Set<string>;
+};
+const reindexingCollections = globalForReindex.reindexingCollections ?? (globalForReindex.reindexingCollections = new Set());
+
+export interface ReindexResult {
+  collectionName: string;
+  chunksReindexed: number;
+  previous: CollectionEmbeddingInfo;
+  current: CollectionEmbeddingInfo | null;
+}
+
+// Give every chunk its deterministic ID and position. Chunks stored before positions were recorded
+// are numbered per URL in ID order, which was their insertion order (IDs were timestamp-based).
+function withChunkIdentity(collectionName: string, chunks: IndexedChunk[]): IndexedChunk[] {
+  const unpositioned = new Map<string, IndexedChunk[]>();
+  for (const chunk of chunks) {
+    if (chunk.chunk_index === null) {
+      unpositioned.set(chunk.url, [...(unpositioned.get(chunk.url) || []), chunk]);
+    }
+  }
+
+  const positions = new Map<IndexedChunk, { index: number; total: number }>();
+  for (const pageChunks of unpositioned.values()) {
+    pageChunks
+      .sort((a, b) => Number(a.id) - Number(b.id))
+      .forEach((chunk, index) => positions.set(chunk, { index, total: pageChunks.length }));
+  }
+
+  return chunks.map(chunk => {
+    const position = positions.get(chunk);
+    const chunkIndex = position ? position.index : chunk.chunk_index!;
+    const contentHash = chunk.content_hash || hashContent(chunk.content);
+    return {
+      ...chunk,
+      id: createChunkId(collectionName, chunk.url, chunkIndex, contentHash),
+      page_url: chunk.page_url || chunk.url,
+      content_hash: contentHash,
+      chunk_index: chunkIndex,
+      total_chunks: position ? position.total : chunk.total_chunks,
+    };
+  });
+}
+
+// Whether a collection is being re-indexed and must not be written to
+export function isReindexing(collectionName: string): boolean {
+  return reindexingCollections.has(collectionName);
+}
+
+// Rebuild a collection from its stored chunk text: re-embed every chunk with the configured
+// provider into a fresh collection (cosine index, normalized vectors), then swap it in.
+// No re-crawl is needed, and it also migrates a collection to a new embedding model and
+// legacy timestamp IDs to deterministic chunk IDs.
+export async function reindexCollection(collectionName: string): Promise<ReindexResult> {
+  if (isReindexing(collectionName)) {
+    throw new Error(`Collection ${collectionName} is already being re-indexed`);
+  }
+
+  const store = getVectorStore();
+  const tempName = `${collectionName}_reindex`;
+  let swapping = false;
+  reindexingCollections.add(collectionName);
+
+  try {
+    const previous = await store.getEmbeddingInfo(collectionName);
+    if (!previous) {
+      throw new Error(`Collection ${collectionName} does not exist`);
+    }
+
+    const chunks = withChunkIdentity(collectionName, await store.listChunks(collectionName));
+    console.log(`Re-indexing ${chunks.length} chunks of ${collectionName} (was ${previous.model}, ${previous.metric})`);
+
+    // Start from a clean temporary collection in case an earlier attempt was interrupted
+    await store.dropCollection(tempName);
+    await store.initializeDatabase(tempName, getEmbeddingSpec());
+
+    for (let i = 0; i < chunks.length; i += REINDEX_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + REINDEX_BATCH_SIZE);
+      const embeddings = await generateEmbeddings(batch.map(chunk => chunk.content));
+      const rows: StoredChunkInput[] = batch.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] }));
+      await store.insertChunks(tempName, rows);
+      console.log(`Re-indexed ${Math.min(i + REINDEX_BATCH_SIZE, chunks.length)}/${chunks.length} chunks`);
+    }
+
+    // The original collection is only replaced once everything has been re-embedded
+    swapping = true;
+    await store.replaceCollection(collectionName, tempName);
+
+    const current = await store.getEmbeddingInfo(collectionName);
+    console.log(`Re-indexed ${collectionName}: now ${current?.model}, ${current?.metric}`);
+    return { collectionName, chunksReindexed: chunks.length, previous, current };
+  } catch (error) {
+    console.error(`Error re-indexing collection ${collectionName}:`, error);
+    // Before the swap the original is untouched, so the partial copy can go; during the swap
+    // the re-embedded copy may be the only complete one left, so it is kept for recovery
+    if (!swapping) {
+      await store.dropCollection(tempName).catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    reindexingCollections.delete(collectionName);
+  }
+}
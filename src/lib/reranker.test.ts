@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateText } from '@/lib/llm-providers';
+import { parseRerankOptions, rerank } from '@/lib/reranker';
+
+vi.mock('@/lib/llm-providers', () => ({ generateText: vi.fn() }));
+
+const candidates = [
+  { title: 'Shipping', content: 'We ship worldwide within five days.' },
+  { title: 'Returns', content: 'Return any order within thirty days for a refund.' },
+  { title: 'Refund policy', content: 'Refunds for returned orders are paid within a week.' },
+];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.mocked(generateText).mockReset();
+});
+
+describe('parseRerankOptions', () => {
+  it('falls back to the RERANK_* defaults', () => {
+    vi.stubEnv('RERANK_MODE', 'lexical');
+    vi.stubEnv('RERANK_TOP_N', '10');
+    expect(parseRerankOptions(undefined)).toEqual({ mode: 'lexical', topN: 10, minScore: 0.3 });
+    expect(parseRerankOptions(false)).toMatchObject({ mode: 'none' });
+    expect(parseRerankOptions({ minScore: '0.5' })).toEqual({ mode: 'lexical', topN: 10, minScore: 0.5 });
+  });
+
+  it('turns on LLM reranking for true when no mode is configured', () => {
+    expect(parseRerankOptions(true)).toMatchObject({ mode: 'llm', topN: 20 });
+    expect(parseRerankOptions('lexical')).toMatchObject({ mode: 'lexical' });
+  });
+
+  it('rejects unknown modes and out-of-range numbers', () => {
+    expect(() => parseRerankOptions('fancy')).toThrow('Unknown rerank mode "fancy"');
+    expect(() => parseRerankOptions({ topN: 'abc' })).toThrow('rerank topN must be a positive integer');
+    expect(() => parseRerankOptions({ topN: 0 })).toThrow('rerank topN must be a positive integer');
+    expect(() => parseRerankOptions({ topN: 2.5 })).toThrow('rerank topN must be a positive integer');
+    expect(() => parseRerankOptions({ minScore: 'high' })).toThrow('rerank minScore must be a number from 0 to 1');
+    expect(() => parseRerankOptions({ minScore: 1.5 })).toThrow('rerank minScore must be a number from 0 to 1');
+  });
+
+  it('rejects a misconfigured environment', () => {
+    vi.stubEnv('RERANK_MODE', 'cohere');
+    expect(() => parseRerankOptions(undefined)).toThrow('Unknown RERANK_MODE "cohere"');
+  });
+});
+
+describe('rerank', () => {
+  it('scores lexically by the share of query terms each passage contains', async () => {
+    const results = await rerank('refund for returned orders', candidates, { mode: 'lexical', topN: 20, minScore: 0.3 });
+
+    expect(results.map(result => [result.title, result.relevance])).toEqual([
+      ['Refund policy', 1],
+      ['Returns', 0.5],
+    ]);
+  });
+
+  it('parses the LLM scores, clamps them to 0-10 and drops and sorts by them', async () => {
+    vi.mocked(generateText).mockResolvedValue({ text: 'Scores: [3, 12, 7.5]', provider: 'stub', model: 'stub-v1' });
+
+    const results = await rerank('refunds', candidates, { mode: 'llm', topN: 20, minScore: 0.5 });
+
+    expect(results.map(result => [result.title, result.relevance])).toEqual([
+      ['Returns', 1],
+      ['Refund policy', 0.75],
+    ]);
+    expect(vi.mocked(generateText).mock.calls[0][0]).toContain('[3] Refund policy Refunds for returned orders');
+  });
+
+  it('keeps the retrieval order unscored when the LLM reply cannot be used', async () => {
+    vi.mocked(generateText).mockResolvedValue({ text: '[7, 2]', provider: 'stub', model: 'stub-v1' });
+
+    const results = await rerank('refunds', candidates, { mode: 'llm', topN: 20, minScore: 0.5 });
+
+    expect(results.map(result => [result.title, result.relevance])).toEqual([
+      ['Shipping', null],
+      ['Returns', null],
+      ['Refund policy', null],
+    ]);
+  });
+
+  it('leaves candidates alone when reranking is off', async () => {
+    const results = await rerank('refunds', candidates, { mode: 'none', topN: 20, minScore: 0.5 });
+    expect(results.map(result => result.relevance)).toEqual([null, null, null]);
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
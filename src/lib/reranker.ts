@@ -0,0 +1,155 @@
+import { generateText } from '@/lib/llm-providers';
+import { tokenize } from '@/lib/lexical-index';
+
+export type RerankMode = 'none' | 'llm' | 'lexical';
+
+export interface RerankOptions {
+  mode: RerankMode;
+  topN: number; // How many retrieved candidates to score
+  minScore: number; // Candidates scoring below this (0-1) are dropped as irrelevant
+}
+
+const RERANK_MODES: RerankMode[] = ['none', 'llm', 'lexical'];
+
+// Passages are truncated in the scoring prompt to keep it small
+const MAX_PASSAGE_LENGTH = 800;
+
+function checkMode(value: unknown, name: string): RerankMode {
+  if (!RERANK_MODES.includes(value as RerankMode)) {
+    throw new Error(`Unknown ${name} "${value}" (expected none, llm or lexical)`);
+  }
+  return value as RerankMode;
+}
+
+// Numbers may also be given as numeric strings (query parameters, environment variables)
+function toNumber(value: unknown): number {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '') ? Number(value) : NaN;
+}
+
+function checkTopN(value: unknown, name: string): number {
+  const topN = toNumber(value);
+  if (!Number.isInteger(topN) || topN < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return topN;
+}
+
+function checkMinScore(value: unknown, name: string): number {
+  const minScore = toNumber(value);
+  if (!(minScore >= 0 && minScore <= 1)) {
+    throw new Error(`${name} must be a number from 0 to 1`);
+  }
+  return minScore;
+}
+
+// Defaults from RERANK_MODE, RERANK_TOP_N and RERANK_MIN_SCORE; a bad value fails every
+// request that reranks rather than silently disabling reranking
+function getDefaultRerankOptions(): RerankOptions {
+  return {
+    mode: checkMode(process.env.RERANK_MODE || 'none', 'RERANK_MODE'),
+    topN: checkTopN(process.env.RERANK_TOP_N || 20, 'RERANK_TOP_N'),
+    minScore: checkMinScore(process.env.RERANK_MIN_SCORE || 0.3, 'RERANK_MIN_SCORE'),
+  };
+}
+
+// Parse per-request rerank settings: true/false, a mode name, or { mode, topN, minScore }.
+// Anything missing falls back to the RERANK_* environment defaults. Throws with a message
+// suitable for a 400 response.
+export function parseRerankOptions(value: unknown): RerankOptions {
+  const defaults = getDefaultRerankOptions();
+  if (value === undefined || value === null || value === '') {
+    return defaults;
+  }
+  if (value === true || value === 'true') {
+    return { ...defaults, mode: defaults.mode === 'none' ? 'llm' : defaults.mode };
+  }
+  if (value === false || value === 'false') {
+    return { ...defaults, mode: 'none' };
+  }
+
+  const input = (typeof value === 'string' ? { mode: value } : value) as Record<string, unknown>;
+  return {
+    mode: input.mode !== undefined ? checkMode(input.mode, 'rerank mode') : defaults.mode,
+    topN: input.topN !== undefined ? checkTopN(input.topN, 'rerank topN') : defaults.topN,
+    minScore: input.minScore !== undefined ? checkMinScore(input.minScore, 'rerank minScore') : defaults.minScore,
+  };
+}
+
+// Ask the LLM to grade each passage's relevance to the query on a 0-10 scale
+async function scoreWithLLM(query: string, passages: string[]): Promise<number[]> {
+  const numbered = passages
+    .map((passage, index) => `[${index + 1}] ${passage.replace(/\s+/g, ' ').substring(0, MAX_PASSAGE_LENGTH)}`)
+    .join('\n\n');
+
+  const prompt = `
+You are grading search results. For each numbered passage, rate how well it helps answer the query.
+
+Query: ${query}
+
+Passages:
+${numbered}
+
+Scoring:
+- 10: directly answers the query
+- 5: related and partly useful
+- 0: irrelevant
+
+Return only a JSON array of ${passages.length} integers from 0 to 10, one per passage in order, e.g. [7, 0, 3].
+`;
+
+  const { text } = await generateText(prompt);
+  const match = text.match(/\[[\d\s,.]*\]/);
+  const scores: number[] = match ? JSON.parse(match[0]) : [];
+  if (scores.length !== passages.length) {
+    throw new Error(`Expected ${passages.length} scores from the reranker, got ${scores.length}`);
+  }
+
+  return scores.map(score => Math.min(Math.max(Number(score) || 0, 0), 10) / 10);
+}
+
+// Local, model-free scoring: the share of distinct query terms that appear in the passage
+function scoreLexically(query: string, passages: string[]): number[] {
+  const queryTerms = new Set(tokenize(query).filter(term => term.length > 2));
+  if (queryTerms.size === 0) {
+    return passages.map(() => 0);
+  }
+
+  return passages.map(passage => {
+    const passageTerms = new Set(tokenize(passage));
+    let matched = 0;
+    for (const term of queryTerms) {
+      if (passageTerms.has(term)) matched++;
+    }
+    return matched / queryTerms.size;
+  });
+}
+
+// Score candidates against the query and return them best first with a 0-1 relevance score,
+// dropping those below options.minScore. If scoring fails the candidates are returned unscored.
+export async function rerank<T extends { content: string; title: string }>(
+  query: string,
+  candidates: T[],
+  options: RerankOptions
+): Promise<Array<T & { relevance: number | null }>> {
+  if (options.mode === 'none' || candidates.length === 0) {
+    return candidates.map(candidate => ({ ...candidate, relevance: null }));
+  }
+
+  const passages = candidates.map(candidate => `${candidate.title}\n${candidate.content}`);
+
+  let scores: number[];
+  try {
+    scores = options.mode === 'llm' ? await scoreWithLLM(query, passages) : scoreLexically(query, passages);
+  } catch (error) {
+    console.error('Error reranking results, keeping retrieval order:', error);
+    return candidates.map(candidate => ({ ...candidate, relevance: null }));
+  }
+
+  const reranked = candidates
+    .map((candidate, index) => ({ ...candidate, relevance: scores[index] }))
+    .filter(candidate => candidate.relevance >= options.minScore)
+    .sort((a, b) => b.relevance - a.relevance);
+
+  console.log(`Reranked ${candidates.length} candidates with ${options.mode}: kept ${reranked.length} at or above ${options.minScore}`);
+  return reranked;
+}
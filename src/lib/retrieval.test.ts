@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { searchLexical } from '@/lib/lexical-index';
+import { rerank } from '@/lib/reranker';
+import { retrieveRelevantChunks } from '@/lib/retrieval';
+import type { IndexedChunk, SearchResult } from '@/lib/vector-store';
+
+const searchSimilarContent = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/embeddings', () => ({ createQueryEmbedding: async () => [1, 0, 0] }));
+vi.mock('@/lib/lexical-index', () => ({ searchLexical: vi.fn() }));
+vi.mock('@/lib/reranker', () => ({ rerank: vi.fn() }));
+vi.mock('@/lib/vector-store', () => ({
+  assertEmbeddingCompatibility: async () => {},
+  getVectorStore: () => ({ searchSimilarContent }),
+}));
+
+const chunk = (id: string): IndexedChunk => ({
+  id,
+  url: `https://example.com/${id}`,
+  page_url: `https://example.com/${id}`,
+  title: id,
+  content: `Content of ${id}`,
+  crawled_at: 0,
+  summary: null,
+  content_hash: null,
+  chunk_index: 0,
+  total_chunks: 1,
+  content_type: 'text/html',
+  attributes: {},
+});
+
+const vectorResult = (id: string, similarity: number): SearchResult => {
+  const { content, url, title, crawled_at, summary, page_url, chunk_index, total_chunks, content_type, attributes } = chunk(id);
+  return {
+    content,
+    metadata: { id, url, title, crawled_at, summary, page_url, chunk_index, total_chunks, content_type, attributes },
+    url,
+    title,
+    similarity,
+  };
+};
+
+beforeEach(() => {
+  searchSimilarContent.mockReset().mockResolvedValue([vectorResult('a', 0.9), vectorResult('b', 0.8)]);
+  vi.mocked(searchLexical).mockReset().mockResolvedValue([{ chunk: chunk('b'), score: 7 }, { chunk: chunk('c'), score: 3 }]);
+  vi.mocked(rerank).mockReset();
+});
+
+describe('retrieveRelevantChunks', () => {
+  it('fuses vector and keyword rankings with reciprocal rank fusion', async () => {
+    const results = await retrieveRelevantChunks('kb', 'query', { limit: 5 });
+
+    expect(results.map(({ metadata, score, vectorRank, keywordRank, similarity, relevance }) =>
+      ({ id: metadata.id, score, vectorRank, keywordRank, similarity, relevance }))).toEqual([
+      { id: 'b', score: 1 / 62 + 1 / 61, vectorRank: 2, keywordRank: 1, similarity: 0.8, relevance: null },
+      { id: 'a', score: 1 / 61, vectorRank: 1, keywordRank: null, similarity: 0.9, relevance: null },
+      { id: 'c', score: 1 / 62, vectorRank: null, keywordRank: 2, similarity: 0, relevance: null },
+    ]);
+    // Keyword-only matches are filled in from the stored chunk
+    expect(results[2]).toMatchObject({ content: 'Content of c', url: 'https://example.com/c', metadata: { page_url: 'https://example.com/c', chunk_index: 0 } });
+  });
+
+  it('asks each list for more candidates than the limit and cuts the fused list to it', async () => {
+    const results = await retrieveRelevantChunks('kb', 'query', { limit: 1, similarityThreshold: 0.3 });
+
+    expect(results.map(result => result.metadata.id)).toEqual(['b']);
+    expect(searchSimilarContent).toHaveBeenCalledWith('kb', [1, 0, 0], 20, 0.3, undefined);
+    expect(searchLexical).toHaveBeenCalledWith('kb', 'query', 20, undefined);
+  });
+
+  it('hands the fused top candidates to the reranker and keeps what it returns', async () => {
+    vi.mocked(rerank).mockImplementation(async (_query, candidates) =>
+      candidates.slice(0, 1).map(candidate => ({ ...candidate, relevance: 0.9 })));
+
+    const results = await retrieveRelevantChunks('kb', 'query', { limit: 5, rerank: { mode: 'lexical', topN: 2, minScore: 0.3 } });
+
+    expect(vi.mocked(rerank).mock.calls[0][1].map(candidate => candidate.title)).toEqual(['b', 'a']);
+    expect(results.map(result => [result.metadata.id, result.relevance])).toEqual([['b', 0.9]]);
+  });
+});
@@ -0,0 +1,108 @@
+import { expandContext, ExpansionOptions } from '@/lib/context-expansion';
+import { createQueryEmbedding } from '@/lib/embeddings';
+import { searchLexical } from '@/lib/lexical-index';
+import { rerank, RerankOptions } from '@/lib/reranker';
+import { assertEmbeddingCompatibility, getVectorStore } from '@/lib/vector-store';
+import type { FilterExpression } from '@/lib/filters';
+import type { SearchResult } from '@/lib/vector-store';
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+export interface RetrievalOptions {
+  limit?: number;
+  similarityThreshold?: number;
+  filters?: FilterExpression; // Restrict retrieval to matching chunks (see lib/filters)
+  rerank?: RerankOptions; // Optional second stage that re-scores the fused candidates against the query
+  expand?: ExpansionOptions; // Optionally merge each result with neighbouring chunks of its page
+}
+
+// A search result ranked by fusing vector and keyword rankings
+export interface RetrievedChunk extends SearchResult {
+  score: number; // Fused RRF score; higher is better
+  vectorRank: number | null; // 1-based rank in the vector results, null if only matched by keywords
+  keywordRank: number | null; // 1-based rank in the keyword results, null if only matched by vectors
+  relevance: number | null; // 0-1 relevance from the rerank stage, null when not reranked
+}
+
+// Retrieve the chunks most relevant to a query from a collection, combining semantic (vector)
+// and exact-term (BM25) matches with reciprocal rank fusion
+export async function retrieveRelevantChunks(
+  collectionName: string,
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedChunk[]> {
+  const { limit = 5, similarityThreshold = 0.5, filters } = options;
+  const reranking = options.rerank && options.rerank.mode !== 'none' ? options.rerank : null;
+  // Look deeper than the final limit in each list so fusion (and reranking) has something to work with
+  const candidateCount = Math.max(limit * 4, 20, reranking?.topN || 0);
+
+  try {
+    // Refuse to compare query vectors against a collection built with a different embedding model
+    await assertEmbeddingCompatibility(collectionName);
+
+    const queryEmbedding = await createQueryEmbedding(query);
+    console.log(`Query embedding generated: ${queryEmbedding.length} dimensions`);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      getVectorStore().searchSimilarContent(collectionName, queryEmbedding, candidateCount, similarityThreshold, filters),
+      searchLexical(collectionName, query, candidateCount, filters),
+    ]);
+
+    const fused = new Map<string, Omit<RetrievedChunk, 'relevance'>>();
+
+    vectorResults.forEach((result, index) => {
+      fused.set(String(result.metadata.id), {
+        ...result,
+        score: 1 / (RRF_K + index + 1),
+        vectorRank: index + 1,
+        keywordRank: null,
+      });
+    });
+
+    keywordResults.forEach(({ chunk }, index) => {
+      const rankScore = 1 / (RRF_K + index + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        existing.score += rankScore;
+        existing.keywordRank = index + 1;
+        return;
+      }
+
+      fused.set(chunk.id, {
+        content: chunk.content,
+        metadata: {
+          id: chunk.id,
+          url: chunk.url,
+          title: chunk.title,
+          crawled_at: chunk.crawled_at,
+          summary: chunk.summary,
+          page_url: chunk.page_url,
+          chunk_index: chunk.chunk_index,
+          total_chunks: chunk.total_chunks,
+          content_type: chunk.content_type,
+          attributes: chunk.attributes,
+        },
+        url: chunk.url,
+        title: chunk.title,
+        similarity: 0, // Not among the vector candidates
+        score: rankScore,
+        vectorRank: null,
+        keywordRank: index + 1,
+      });
+    });
+
+    const ranked = Array.from(fused.values()).sort((a, b) => b.score - a.score);
+
+    // Rerank the top candidates when requested; irrelevant ones are dropped rather than padded back in
+    const results = reranking
+      ? (await rerank(query, ranked.slice(0, reranking.topN), reranking)).slice(0, limit)
+      : ranked.slice(0, limit).map(result => ({ ...result, relevance: null }));
+
+    console.log(`Hybrid retrieval: ${vectorResults.length} vector + ${keywordResults.length} keyword candidates → ${results.length} results`);
+    return options.expand ? await expandContext(collectionName, results, options.expand) : results;
+  } catch (error) {
+    console.error('Error retrieving relevant chunks:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+import { fetchWithTimeout } from '@/lib/http';
+
+export interface RobotsRules {
+  found: boolean;
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds?: number;
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds?: number;
+}
+
+// Rules used when a site has no robots.txt (everything allowed)
+export const EMPTY_ROBOTS_RULES: RobotsRules = { found: false, allow: [], disallow: [], sitemaps: [] };
+
+// Parse robots.txt and return the rules that apply to the given user agent
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasUserAgent) {
+        current = { userAgents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasUserAgent = true;
+      continue;
+    }
+
+    lastWasUserAgent = false;
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (current && field === 'allow') {
+      if (value) current.allow.push(value);
+    } else if (current && field === 'disallow') {
+      // An empty Disallow means "allow everything"
+      if (value) current.disallow.push(value);
+    } else if (current && field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) current.crawlDelaySeconds = delay;
+    }
+  }
+
+  // Pick the group with the most specific matching user-agent token, falling back to *
+  const agent = userAgent.toLowerCase();
+  let selected: RobotsGroup | undefined;
+  let selectedLength = -1;
+  for (const group of groups) {
+    for (const token of group.userAgents) {
+      const matches = token === '*' ? true : agent.includes(token);
+      const length = token === '*' ? 0 : token.length;
+      if (matches && length > selectedLength) {
+        selected = group;
+        selectedLength = length;
+      }
+    }
+  }
+
+  return {
+    found: true,
+    allow: selected?.allow || [],
+    disallow: selected?.disallow || [],
+    crawlDelaySeconds: selected?.crawlDelaySeconds,
+    sitemaps,
+  };
+}
+
+// Convert a robots.txt path pattern (supporting * and $) into a regular expression
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Check whether a URL may be crawled; the longest matching rule wins and Allow wins ties
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch {
+    return false;
+  }
+
+  let bestLength = -1;
+  let allowed = true;
+  for (const pattern of rules.disallow) {
+    if (pattern.length > bestLength && patternToRegExp(pattern).test(path)) {
+      bestLength = pattern.length;
+      allowed = false;
+    }
+  }
+  for (const pattern of rules.allow) {
+    if (pattern.length >= bestLength && patternToRegExp(pattern).test(path)) {
+      bestLength = pattern.length;
+      allowed = true;
+    }
+  }
+  return allowed;
+}
+
+// Fetch and parse robots.txt for an origin; missing or unreachable files allow everything
+export async function fetchRobotsRules(origin: string, userAgent: string, timeoutMs: number = 10000): Promise<RobotsRules> {
+  try {
+    const response = await fetchWithTimeout(`${origin}/robots.txt`, { userAgent, timeoutMs, accept: 'text/plain' });
+    if (!response.ok) {
+      console.log(`No robots.txt found at ${origin} (HTTP ${response.status})`);
+      return EMPTY_ROBOTS_RULES;
+    }
+
+    const rules = parseRobotsTxt(await response.text(), userAgent);
+    console.log(`Loaded robots.txt for ${origin}: ${rules.disallow.length} disallow rules, crawl-delay ${rules.crawlDelaySeconds ?? 'none'}`);
+    return rules;
+  } catch (error) {
+    console.warn(`Could not fetch robots.txt for ${origin}:`, error instanceof Error ? error.message : error);
+    return EMPTY_ROBOTS_RULES;
+  }
+}
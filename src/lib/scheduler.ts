@@ -0,0 +1,88 @@
+import { getCrawlJob, startCrawlJob, waitForCrawlJob } from '@/lib/crawl-jobs';
+import { computeNextRun, listSchedules, RefreshSchedule, updateSchedule } from '@/lib/schedules';
+
+const TICK_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS || 60000);
+
+// Keep scheduler state on globalThis so module reloads don't start a second timer
+const globalForScheduler = globalThis as unknown as {
+  refreshScheduler?: NodeJS.Timeout;
+  refreshSchedulerTicking?: boolean;
+};
+
+// Whether the last job started for a schedule is still running
+function isRunning(schedule: RefreshSchedule): boolean {
+  if (!schedule.lastJobId) return false;
+  const job = getCrawlJob(schedule.lastJobId);
+  return !!job && !job.finishedAt;
+}
+
+// Start a re-crawl for a due schedule and record the outcome when it finishes
+async function runSchedule(schedule: RefreshSchedule) {
+  const now = new Date();
+  const job = startCrawlJob(schedule.knowledgeBaseId, schedule.url, schedule.crawlOptions);
+  console.log(`Scheduled refresh of ${schedule.url} started as job ${job.id}`);
+
+  await updateSchedule(schedule.knowledgeBaseId, schedule.url, {
+    lastRunAt: now.toISOString(),
+    lastJobId: job.id,
+    nextRunAt: computeNextRun(schedule, now).toISOString(),
+  });
+
+  void waitForCrawlJob(job.id).then(async finished => {
+    if (!finished) return;
+    const finishedAt = finished.finishedAt || new Date().toISOString();
+
+    if (finished.phase === 'completed') {
+      await updateSchedule(schedule.knowledgeBaseId, schedule.url, { lastSuccessAt: finishedAt, lastError: null });
+    } else {
+      const lastError = finished.errors[finished.errors.length - 1]?.error || `Crawl ${finished.phase}`;
+      await updateSchedule(schedule.knowledgeBaseId, schedule.url, { lastFailureAt: finishedAt, lastError });
+    }
+    console.log(`Scheduled refresh of ${schedule.url} finished: ${finished.phase}`);
+  }).catch(error => {
+    console.error(`Error recording scheduled refresh of ${schedule.url}:`, error);
+  });
+}
+
+// Check all schedules and start crawls for any that are due
+export async function runDueSchedules() {
+  if (globalForScheduler.refreshSchedulerTicking) return;
+  globalForScheduler.refreshSchedulerTicking = true;
+
+  try {
+    const now = Date.now();
+    const schedules = await listSchedules();
+    const due = schedules.filter(schedule =>
+      new Date(schedule.nextRunAt).getTime() <= now && !isRunning(schedule)
+    );
+
+    for (const schedule of due) {
+      try {
+        await runSchedule(schedule);
+      } catch (error) {
+        console.error(`Error starting scheduled refresh of ${schedule.url}:`, error);
+        await updateSchedule(schedule.knowledgeBaseId, schedule.url, {
+          lastFailureAt: new Date().toISOString(),
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+          nextRunAt: computeNextRun(schedule).toISOString(),
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error checking refresh schedules:', error);
+  } finally {
+    globalForScheduler.refreshSchedulerTicking = false;
+  }
+}
+
+// Start the background scheduler (no-op if it's already running)
+export function startScheduler() {
+  if (globalForScheduler.refreshScheduler) return;
+
+  console.log(`Starting refresh scheduler (checking every ${TICK_INTERVAL_MS / 1000}s)`);
+  globalForScheduler.refreshScheduler = setInterval(() => {
+    void runDueSchedules();
+  }, TICK_INTERVAL_MS);
+  globalForScheduler.refreshScheduler.unref?.();
+}
+
@@ -0,0 +1,148 @@
+import { CrawlJobOptions, parseCrawlJobOptions } from '@/lib/crawl-jobs';
+import { getNextCronRun } from '@/lib/cron';
+import { readJsonFile, updateJsonFile } from '@/lib/file-store';
+import { DEFAULT_KNOWLEDGE_BASE_ID } from '@/lib/knowledge-bases';
+
+const SCHEDULES_FILE = 'schedules.json';
+
+export interface RefreshSchedule {
+  knowledgeBaseId: string;
+  url: string;
+  intervalHours: number | null;
+  cron: string | null;
+  crawlOptions: CrawlJobOptions;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastJobId: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+export interface ScheduleInput {
+  intervalHours?: number;
+  cron?: string;
+  crawlOptions?: CrawlJobOptions;
+}
+
+// Schedules are keyed by knowledge base and URL; older entries without a knowledge base belong to the default one
+function isScheduleFor(schedule: RefreshSchedule, knowledgeBaseId: string, url: string): boolean {
+  return (schedule.knowledgeBaseId || DEFAULT_KNOWLEDGE_BASE_ID) === knowledgeBaseId && schedule.url === url;
+}
+
+// Compute when a schedule should next run after the given time
+export function computeNextRun(schedule: Pick<RefreshSchedule, 'intervalHours' | 'cron'>, after: Date = new Date()): Date {
+  if (schedule.cron) {
+    return getNextCronRun(schedule.cron, after);
+  }
+  return new Date(after.getTime() + (schedule.intervalHours || 24) * 60 * 60 * 1000);
+}
+
+// Validate schedule input, throwing a descriptive error if it's invalid; returns the validated
+// crawl options, checked the same way as POST /api/crawl so bad values fail now, not at run time
+function validateScheduleInput(input: ScheduleInput): CrawlJobOptions | undefined {
+  const hasInterval = input.intervalHours !== undefined && input.intervalHours !== null;
+  const hasCron = !!input.cron;
+
+  if (hasInterval === hasCron) {
+    throw new Error('Provide exactly one of intervalHours or cron');
+  }
+  if (hasInterval && (typeof input.intervalHours !== 'number' || !(input.intervalHours > 0))) {
+    throw new Error('intervalHours must be a positive number');
+  }
+  if (hasCron) {
+    // Throws if the expression is malformed
+    getNextCronRun(input.cron!);
+  }
+
+  if (input.crawlOptions === undefined || input.crawlOptions === null) {
+    return undefined;
+  }
+  if (typeof input.crawlOptions !== 'object' || Array.isArray(input.crawlOptions)) {
+    throw new Error('crawlOptions must be an object');
+  }
+  return parseCrawlJobOptions(input.crawlOptions);
+}
+
+// List all refresh schedules, optionally limited to one knowledge base
+export async function listSchedules(knowledgeBaseId?: string): Promise<RefreshSchedule[]> {
+  const schedules = await readJsonFile<RefreshSchedule[]>(SCHEDULES_FILE, []);
+  return schedules
+    .map(schedule => ({ ...schedule, knowledgeBaseId: schedule.knowledgeBaseId || DEFAULT_KNOWLEDGE_BASE_ID }))
+    .filter(schedule => !knowledgeBaseId || schedule.knowledgeBaseId === knowledgeBaseId);
+}
+
+// Get the refresh schedule for a website, if any
+export async function getSchedule(knowledgeBaseId: string, url: string): Promise<RefreshSchedule | null> {
+  const schedules = await listSchedules(knowledgeBaseId);
+  return schedules.find(schedule => schedule.url === url) || null;
+}
+
+// Create or replace the refresh schedule for a website
+export async function setSchedule(knowledgeBaseId: string, url: string, input: ScheduleInput): Promise<RefreshSchedule> {
+  const crawlOptions = validateScheduleInput(input);
+
+  return updateJsonFile(SCHEDULES_FILE, [], (schedules: RefreshSchedule[]) => {
+    const now = new Date();
+    const existing = schedules.find(schedule => isScheduleFor(schedule, knowledgeBaseId, url));
+    const timing = {
+      intervalHours: input.cron ? null : input.intervalHours!,
+      cron: input.cron || null,
+    };
+
+    const schedule: RefreshSchedule = {
+      knowledgeBaseId,
+      url,
+      ...timing,
+      crawlOptions: crawlOptions || existing?.crawlOptions || {},
+      createdAt: existing?.createdAt || now.toISOString(),
+      updatedAt: now.toISOString(),
+      nextRunAt: computeNextRun(timing, now).toISOString(),
+      lastRunAt: existing?.lastRunAt || null,
+      lastJobId: existing?.lastJobId || null,
+      lastSuccessAt: existing?.lastSuccessAt || null,
+      lastFailureAt: existing?.lastFailureAt || null,
+      lastError: existing?.lastError || null,
+    };
+
+    if (existing) {
+      schedules.splice(schedules.indexOf(existing), 1, schedule);
+    } else {
+      schedules.push(schedule);
+    }
+
+    console.log(`Refresh schedule set for ${url} in ${knowledgeBaseId}: ${schedule.cron || `every ${schedule.intervalHours}h`}, next run ${schedule.nextRunAt}`);
+    return schedule;
+  });
+}
+
+// Remove the refresh schedule for a website; returns false if there was none
+export async function clearSchedule(knowledgeBaseId: string, url: string): Promise<boolean> {
+  return updateJsonFile(SCHEDULES_FILE, [], (schedules: RefreshSchedule[]) => {
+    const index = schedules.findIndex(schedule => isScheduleFor(schedule, knowledgeBaseId, url));
+    if (index === -1) {
+      return false;
+    }
+    schedules.splice(index, 1);
+    console.log(`Refresh schedule cleared for ${url} in ${knowledgeBaseId}`);
+    return true;
+  });
+}
+
+// Apply changes to a stored schedule (used by the scheduler to record runs)
+export async function updateSchedule(
+  knowledgeBaseId: string,
+  url: string,
+  changes: Partial<RefreshSchedule>
+): Promise<RefreshSchedule | null> {
+  return updateJsonFile(SCHEDULES_FILE, [], (schedules: RefreshSchedule[]) => {
+    const schedule = schedules.find(item => isScheduleFor(item, knowledgeBaseId, url));
+    if (!schedule) {
+      return null;
+    }
+    Object.assign(schedule, changes, { updatedAt: new Date().toISOString() });
+    return schedule;
+  });
+}
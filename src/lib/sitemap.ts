@@ -0,0 +1,75 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { fetchWithTimeout } from '@/lib/http';
+
+const MAX_SITEMAP_FILES = 50;
+
+export interface SitemapDiscovery {
+  sitemaps: string[];
+  urls: string[];
+}
+
+// Decode a sitemap body, transparently gunzipping .gz sitemaps
+function decodeSitemapBody(buffer: Buffer): string {
+  const isGzip = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+  return (isGzip ? gunzipSync(buffer) : buffer).toString('utf-8');
+}
+
+// Parse a sitemap document into child sitemaps (for sitemap indexes) and page URLs
+export function parseSitemap(xml: string): { sitemaps: string[]; urls: string[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const sitemaps = $('sitemapindex > sitemap > loc').map((_, el) => $(el).text().trim()).get().filter(Boolean);
+  const urls = $('urlset > url > loc').map((_, el) => $(el).text().trim()).get().filter(Boolean);
+  return { sitemaps, urls };
+}
+
+// Walk sitemaps (following sitemap indexes) and collect same-origin page URLs
+export async function discoverSitemapUrls(
+  origin: string,
+  candidateSitemaps: string[],
+  options: { userAgent: string; timeoutMs?: number; maxUrls?: number }
+): Promise<SitemapDiscovery> {
+  const maxUrls = options.maxUrls ?? 1000;
+  const queue = candidateSitemaps.length > 0 ? [...candidateSitemaps] : [`${origin}/sitemap.xml`];
+  const seen = new Set<string>();
+  const fetchedSitemaps: string[] = [];
+  const urls = new Set<string>();
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAP_FILES && urls.size < maxUrls) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    try {
+      const response = await fetchWithTimeout(sitemapUrl, {
+        userAgent: options.userAgent,
+        timeoutMs: options.timeoutMs,
+        accept: 'application/xml,text/xml,application/gzip',
+      });
+      if (!response.ok) {
+        console.log(`Sitemap not available: ${sitemapUrl} (HTTP ${response.status})`);
+        continue;
+      }
+
+      const xml = decodeSitemapBody(Buffer.from(await response.arrayBuffer()));
+      const parsed = parseSitemap(xml);
+      fetchedSitemaps.push(sitemapUrl);
+      queue.push(...parsed.sitemaps);
+
+      for (const url of parsed.urls) {
+        try {
+          if (new URL(url).origin === origin && urls.size < maxUrls) {
+            urls.add(url);
+          }
+        } catch {
+          // Ignore malformed <loc> entries
+        }
+      }
+    } catch (error) {
+      console.warn(`Error reading sitemap ${sitemapUrl}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`Discovered ${urls.size} URLs from ${fetchedSitemaps.length} sitemaps for ${origin}`);
+  return { sitemaps: fetchedSitemaps, urls: Array.from(urls) };
+}
@@ -0,0 +1,50 @@
+// Write one Server-Sent Event to the stream
+export type SSESend = (event: string, data: unknown) => void;
+
+const encoder = new TextEncoder();
+
+// Build a text/event-stream response. `run` writes events and the stream closes once it settles;
+// its signal aborts when the client disconnects or cancels the stream.
+export function createSSEResponse(
+  run: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  options: { signal?: AbortSignal; headers?: Record<string, string> } = {}
+): Response {
+  const controller = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SSESend = (event, data) => {
+        if (signal.aborted) return;
+        streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, signal);
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('Error in event stream:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } finally {
+        try {
+          streamController.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...options.headers,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
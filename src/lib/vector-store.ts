@@ -0,0 +1,222 @@
+import * as milvusStore from '@/lib/database-milvus';
+import { createMemoryVectorStore } from '@/lib/database-memory';
+import { assertEmbeddingCompatible, EmbeddingSpec, getEmbeddingSpec } from '@/lib/embedding-providers';
+import type { FilterExpression } from '@/lib/filters';
+
+// Collection used by the default knowledge base (the original single shared collection)
+export const DEFAULT_COLLECTION_NAME = 'ragProj';
+
+export interface ContentChunk {
+  content: string;
+  embedding: number[];
+  metadata?: any;
+}
+
+export interface SearchResult {
+  content: string;
+  metadata: {
+    id: string;
+    url: string;
+    title: string;
+    crawled_at: number | null;
+    summary: string | null;
+    page_url: string;
+    chunk_index: number | null;
+    total_chunks: number | null;
+    content_type: string | null;
+    attributes: ChunkAttributes;
+  };
+  url: string;
+  title: string;
+  similarity: number;
+}
+
+export interface WebsiteSummary {
+  url: string;
+  title: string;
+  crawled_at: number;
+  summary: string | null;
+  chunkCount: number;
+}
+
+// Free-form JSON metadata stored with a chunk (key points, processing details, upload info, ...)
+export type ChunkAttributes = Record<string, any>;
+
+// A stored chunk without its embedding, as read for lexical indexing and re-indexing.
+// chunk_index/total_chunks are null for chunks stored before positions were recorded.
+export interface IndexedChunk {
+  id: string;
+  url: string; // Source the chunk was ingested from (what re-crawls and deletes are keyed on)
+  page_url: string; // Page the chunk's text appears on; the source URL for crawled pages
+  title: string;
+  content: string;
+  crawled_at: number;
+  summary: string | null;
+  content_hash: string | null;
+  chunk_index: number | null; // 0-based position within the page
+  total_chunks: number | null;
+  content_type: string | null; // MIME type of the source, e.g. text/html
+  attributes: ChunkAttributes; // Empty for chunks stored before metadata was kept
+}
+
+// Position and content hash of a stored chunk, used to work out what changed on a re-crawl
+export interface StoredChunkHash {
+  id: string;
+  contentHash: string | null;
+  chunkIndex: number | null;
+  totalChunks: number | null;
+}
+
+// A complete chunk row, written as-is when rebuilding a collection
+export interface StoredChunkInput extends IndexedChunk {
+  embedding: number[];
+}
+
+// How vector closeness is measured: COSINE for current collections, L2 for legacy ones
+export type SimilarityMetric = 'COSINE' | 'L2';
+
+export interface CollectionEmbeddingInfo extends EmbeddingSpec {
+  metric: SimilarityMetric;
+}
+
+export interface CollectionStatus {
+  hasData: boolean;
+  count: number;
+  sample: any;
+  error?: string;
+}
+
+// Storage backend for chunk embeddings, scoped per collection (one collection per knowledge base)
+export interface VectorStore {
+  name: string;
+  initializeDatabase(collectionName: string, embedding: EmbeddingSpec): Promise<{ success: boolean; collectionName: string }>;
+  getEmbeddingInfo(collectionName: string): Promise<CollectionEmbeddingInfo | null>;
+  storeWebsiteChunks(
+    collectionName: string,
+    url: string,
+    title: string,
+    description: string,
+    contentChunks: ContentChunk[]
+  ): Promise<{ success: boolean; chunksStored: number; ids: string[] }>;
+  insertChunks(collectionName: string, chunks: StoredChunkInput[]): Promise<{ success: boolean; chunksStored: number }>;
+  replaceCollection(targetName: string, sourceName: string): Promise<{ success: boolean }>;
+  searchSimilarContent(
+    collectionName: string,
+    queryEmbedding: number[],
+    limit?: number,
+    similarityThreshold?: number,
+    filters?: FilterExpression
+  ): Promise<SearchResult[]>;
+  getAllWebsites(collectionName: string): Promise<WebsiteSummary[]>;
+  listChunks(collectionName: string): Promise<IndexedChunk[]>;
+  deleteWebsiteData(collectionName: string, url: string): Promise<{ success: boolean; deletedChunks: number }>;
+  getPageChunkHashes(collectionName: string, url: string): Promise<StoredChunkHash[]>;
+  getChunksByIds(collectionName: string, ids: string[]): Promise<IndexedChunk[]>;
+  getChunkEmbeddings(collectionName: string, ids: string[]): Promise<Map<string, number[]>>;
+  getPageChunks(collectionName: string, pageUrl: string, range?: { from: number; to: number }): Promise<IndexedChunk[]>;
+  deleteChunksByIds(collectionName: string, ids: string[]): Promise<{ success: boolean; deletedChunks: number }>;
+  dropCollection(collectionName: string): Promise<{ success: boolean; dropped: boolean }>;
+  checkCollectionData(collectionName: string): Promise<CollectionStatus>;
+  // Run a series of writes (a crawl, an upload) and persist them once at the end; stores that
+  // write through (Milvus) just run them
+  batchWrites<T>(collectionName: string, run: () => Promise<T>): Promise<T>;
+}
+
+const milvusVectorStore: VectorStore = {
+  name: 'milvus',
+  initializeDatabase: milvusStore.initializeDatabase,
+  getEmbeddingInfo: milvusStore.getEmbeddingInfo,
+  storeWebsiteChunks: milvusStore.storeWebsiteChunks,
+  insertChunks: milvusStore.insertChunks,
+  replaceCollection: milvusStore.replaceCollection,
+  searchSimilarContent: milvusStore.searchSimilarContent,
+  getAllWebsites: milvusStore.getAllWebsites,
+  listChunks: milvusStore.listChunks,
+  deleteWebsiteData: milvusStore.deleteWebsiteData,
+  getPageChunkHashes: milvusStore.getPageChunkHashes,
+  getChunksByIds: milvusStore.getChunksByIds,
+  getChunkEmbeddings: milvusStore.getChunkEmbeddings,
+  getPageChunks: milvusStore.getPageChunks,
+  deleteChunksByIds: milvusStore.deleteChunksByIds,
+  dropCollection: milvusStore.dropCollection,
+  checkCollectionData: milvusStore.checkCollectionData,
+  batchWrites: (_collectionName, run) => run(),
+};
+
+// Per-collection change counters, bumped after every write so derived indexes know when to rebuild.
+// They only count this process's writes: another process writing to the same Milvus collection
+// (a second server instance, a script) is not seen until this one writes or restarts.
+const globalForVersions = globalThis as unknown as {
+  vectorCollectionVersions?: Map<string, number>;
+};
+const collectionVersions = globalForVersions.vectorCollectionVersions ?? (globalForVersions.vectorCollectionVersions = new Map());
+
+// Current change counter for a collection (0 until this process writes to it)
+export function getCollectionVersion(collectionName: string): number {
+  return collectionVersions.get(collectionName) || 0;
+}
+
+// Wrap a store so writes bump the collection's change counter
+function trackChanges(store: VectorStore): VectorStore {
+  // Bump even when the write fails, since it may have changed some rows before failing
+  const tracked = async <T>(collectionName: string, write: () => Promise<T>): Promise<T> => {
+    try {
+      return await write();
+    } finally {
+      collectionVersions.set(collectionName, getCollectionVersion(collectionName) + 1);
+    }
+  };
+
+  return {
+    ...store,
+    storeWebsiteChunks: (collectionName, url, title, description, contentChunks) =>
+      tracked(collectionName, () => store.storeWebsiteChunks(collectionName, url, title, description, contentChunks)),
+    insertChunks: (collectionName, chunks) =>
+      tracked(collectionName, () => store.insertChunks(collectionName, chunks)),
+    replaceCollection: (targetName, sourceName) =>
+      tracked(targetName, () => store.replaceCollection(targetName, sourceName)),
+    deleteWebsiteData: (collectionName, url) =>
+      tracked(collectionName, () => store.deleteWebsiteData(collectionName, url)),
+    deleteChunksByIds: (collectionName, ids) =>
+      tracked(collectionName, () => store.deleteChunksByIds(collectionName, ids)),
+    dropCollection: collectionName =>
+      tracked(collectionName, () => store.dropCollection(collectionName)),
+  };
+}
+
+let vectorStore: VectorStore | null = null;
+
+// Get the configured vector store: VECTOR_STORE=milvus (default), memory, or file (memory persisted to DATA_DIR)
+export function getVectorStore(): VectorStore {
+  if (vectorStore) {
+    return vectorStore;
+  }
+
+  const backend = (process.env.VECTOR_STORE || 'milvus').toLowerCase();
+  switch (backend) {
+    case 'milvus':
+      vectorStore = milvusVectorStore;
+      break;
+    case 'memory':
+      vectorStore = createMemoryVectorStore({ persist: false });
+      break;
+    case 'file':
+      vectorStore = createMemoryVectorStore({ persist: true });
+      break;
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${backend}" (expected milvus, memory or file)`);
+  }
+
+  vectorStore = trackChanges(vectorStore);
+  console.log(`Using ${vectorStore.name} vector store`);
+  return vectorStore;
+}
+
+// Throw if an existing collection was embedded with a different model than the configured provider,
+// so queries never compare vectors from different embedding spaces
+export async function assertEmbeddingCompatibility(collectionName: string) {
+  const stored = await getVectorStore().getEmbeddingInfo(collectionName);
+  if (stored) {
+    assertEmbeddingCompatible(collectionName, stored, getEmbeddingSpec());
+  }
+}